@@ -8,8 +8,14 @@
  * @module
  */
 
+import type * as audit from "../audit.js";
+import type * as benchmarkPrices from "../benchmarkPrices.js";
+import type * as categories from "../categories.js";
+import type * as fxRates from "../fxRates.js";
 import type * as portfolioDaily from "../portfolioDaily.js";
 import type * as portfolioData from "../portfolioData.js";
+import type * as portfolios from "../portfolios.js";
+import type * as targets from "../targets.js";
 
 import type {
   ApiFromModules,
@@ -18,8 +24,14 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  audit: typeof audit;
+  benchmarkPrices: typeof benchmarkPrices;
+  categories: typeof categories;
+  fxRates: typeof fxRates;
   portfolioDaily: typeof portfolioDaily;
   portfolioData: typeof portfolioData;
+  portfolios: typeof portfolios;
+  targets: typeof targets;
 }>;
 
 /**
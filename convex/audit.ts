@@ -0,0 +1,314 @@
+import { mutation, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+export type AuditedTable =
+  | "portfolioTokens"
+  | "portfolioTransactions"
+  | "portfolioInvestors"
+  | "portfolioSettings"
+  | "portfolioDaily"
+  | "portfolioCategories";
+
+type AuditOperation = "insert" | "update" | "delete";
+
+// Natural key of a document within its portfolio; survives delete + re-insert, unlike _id
+function getDocumentKey(table: AuditedTable, doc: any): string {
+  switch (table) {
+    case "portfolioTokens":
+      return doc.symbol;
+    case "portfolioTransactions":
+      return doc.transactionId;
+    case "portfolioInvestors":
+      return doc.investorId;
+    case "portfolioSettings":
+      return "settings";
+    case "portfolioDaily":
+      return doc.date;
+    case "portfolioCategories":
+      return doc.categoryId;
+  }
+}
+
+async function findByKey(ctx: any, portfolioId: string, table: AuditedTable, key: string) {
+  switch (table) {
+    case "portfolioTokens":
+      return ctx.db
+        .query(table)
+        .withIndex("by_symbol", (q: any) => q.eq("portfolioId", portfolioId).eq("symbol", key))
+        .unique();
+    case "portfolioTransactions":
+      return ctx.db
+        .query(table)
+        .withIndex("by_transaction_id", (q: any) => q.eq("portfolioId", portfolioId).eq("transactionId", key))
+        .unique();
+    case "portfolioInvestors":
+      return ctx.db
+        .query(table)
+        .withIndex("by_investor_id", (q: any) => q.eq("portfolioId", portfolioId).eq("investorId", key))
+        .unique();
+    case "portfolioSettings":
+      return ctx.db
+        .query(table)
+        .withIndex("by_portfolio_id", (q: any) => q.eq("portfolioId", portfolioId))
+        .unique();
+    case "portfolioDaily":
+      return ctx.db
+        .query(table)
+        .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId).eq("date", key))
+        .unique();
+    case "portfolioCategories":
+      return ctx.db
+        .query(table)
+        .withIndex("by_category_id", (q: any) => q.eq("portfolioId", portfolioId).eq("categoryId", key))
+        .unique();
+  }
+}
+
+// Convex values cannot hold undefined, and system fields must not be written back
+function toStoredFields(doc: any) {
+  if (!doc) return undefined;
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(doc)) {
+    if (key === "_id" || key === "_creationTime" || value === undefined) continue;
+    fields[key] = value;
+  }
+  return fields;
+}
+
+/**
+ * Writes to portfolio tables that record before/after documents in the audit log.
+ * One auditor per mutation call; its writes share a batch, created on the first write.
+ */
+export function createAuditor(
+  ctx: any,
+  options: { portfolioId: string; mutation: string; actor?: string; revertsBatchIds?: string[] }
+) {
+  const timestamp = Date.now();
+  const batchId = `${timestamp}-${Math.random().toString(36).slice(2, 10)}`;
+  // Shared so concurrent writes (Promise.all) create the batch only once
+  let batchCreated: Promise<void> | null = null;
+
+  const createBatch = async () => {
+    const identity = await ctx.auth.getUserIdentity();
+    await ctx.db.insert("auditBatches", {
+      portfolioId: options.portfolioId,
+      batchId,
+      mutation: options.mutation,
+      actor: identity?.email ?? identity?.name ?? options.actor ?? "anonymous",
+      timestamp,
+      revertsBatchIds: options.revertsBatchIds,
+    });
+  };
+
+  const log = async (table: AuditedTable, operation: AuditOperation, before: any, after: any) => {
+    batchCreated ??= createBatch();
+    await batchCreated;
+
+    await ctx.db.insert("auditEntries", {
+      portfolioId: options.portfolioId,
+      batchId,
+      table,
+      documentKey: getDocumentKey(table, after ?? before),
+      operation,
+      before: toStoredFields(before),
+      after: toStoredFields(after),
+    });
+  };
+
+  return {
+    batchId,
+    async insert(table: AuditedTable, doc: Record<string, unknown>) {
+      const id = await ctx.db.insert(table, doc);
+      await log(table, "insert", undefined, doc);
+      return id;
+    },
+    async patch(table: AuditedTable, existing: any, fields: Record<string, unknown>) {
+      await ctx.db.patch(existing._id, fields);
+      await log(table, "update", existing, { ...existing, ...fields });
+    },
+    async replace(table: AuditedTable, existing: any, doc: Record<string, unknown>) {
+      await ctx.db.replace(existing._id, doc);
+      await log(table, "update", existing, doc);
+    },
+    async delete(table: AuditedTable, existing: any) {
+      await ctx.db.delete(existing._id);
+      await log(table, "delete", existing, undefined);
+    },
+  };
+}
+
+export type Auditor = ReturnType<typeof createAuditor>;
+
+// Stored NAV from `fromDate` on no longer matches the ledger; backfill recomputes it
+export async function deleteDailyFromDate(ctx: any, auditor: Auditor, portfolioId: string, fromDate: string) {
+  const docs = await ctx.db
+    .query("portfolioDaily")
+    .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId).gte("date", fromDate))
+    .collect();
+
+  await Promise.all(docs.map((doc: any) => auditor.delete("portfolioDaily", doc)));
+}
+
+// Earliest ledger date touched by the entries, or null when no transaction changed
+function getEarliestTransactionDate(entries: Doc<"auditEntries">[]): string | null {
+  let earliest: string | null = null;
+  for (const entry of entries) {
+    if (entry.table !== "portfolioTransactions") continue;
+    for (const doc of [entry.before, entry.after] as any[]) {
+      if (doc?.date && (earliest === null || doc.date < earliest)) earliest = doc.date;
+    }
+  }
+  return earliest;
+}
+
+async function loadBatchEntries(ctx: any, batchId: string): Promise<Doc<"auditEntries">[]> {
+  return ctx.db
+    .query("auditEntries")
+    .withIndex("by_batch", (q: any) => q.eq("batchId", batchId))
+    .order("desc")
+    .collect();
+}
+
+// NAV snapshots written by backfill; rolling these back alone changes nothing in the ledger
+function isDailyOnlyBatch(entries: Doc<"auditEntries">[]): boolean {
+  return entries.every((entry) => entry.table === "portfolioDaily");
+}
+
+// Put the document back the way it was before `entry`, whatever happened to it since
+async function revertEntry(ctx: any, auditor: Auditor, entry: Doc<"auditEntries">) {
+  const current = await findByKey(ctx, entry.portfolioId, entry.table, entry.documentKey);
+
+  if (entry.before === undefined) {
+    if (current) await auditor.delete(entry.table, current);
+  } else if (current) {
+    await auditor.replace(entry.table, current, entry.before);
+  } else {
+    await auditor.insert(entry.table, entry.before);
+  }
+}
+
+/**
+ * Roll back the batches, newest first and within a batch the last write first. When
+ * transactions change, stored NAV from the earliest affected date is dropped afterwards
+ * (including rows the rollback itself restored), as transaction edits do.
+ */
+async function revertBatches(ctx: any, auditor: Auditor, portfolioId: string, batches: Doc<"auditBatches">[]) {
+  const revertedEntries: Doc<"auditEntries">[] = [];
+  for (const batch of batches) {
+    const entries = await loadBatchEntries(ctx, batch.batchId);
+    for (const entry of entries) {
+      await revertEntry(ctx, auditor, entry);
+    }
+    revertedEntries.push(...entries);
+  }
+
+  const invalidateFromDate = getEarliestTransactionDate(revertedEntries);
+  if (invalidateFromDate) {
+    await deleteDailyFromDate(ctx, auditor, portfolioId, invalidateFromDate);
+  }
+}
+
+export const listBatches = query({
+  args: {
+    portfolioId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("auditBatches")
+      .withIndex("by_portfolio_time", (q) => q.eq("portfolioId", args.portfolioId))
+      .order("desc")
+      .take(args.limit ?? 100);
+  },
+});
+
+export const listEntries = query({
+  args: {
+    batchId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("auditEntries")
+      .withIndex("by_batch", (q) => q.eq("batchId", args.batchId))
+      .take(args.limit ?? 200);
+  },
+});
+
+/**
+ * Roll back the most recent change that is still in effect. Undo/restore batches
+ * are skipped, so repeated calls keep stepping further back, and so are batches that
+ * only wrote NAV snapshots, since they are recomputed from the ledger.
+ */
+export const undoLast = mutation({
+  args: {
+    portfolioId: v.string(),
+    actor: v.optional(v.string()),
+  },
+  handler: async (ctx, { portfolioId, actor }) => {
+    const reverted = new Set<string>();
+    let target: Doc<"auditBatches"> | null = null;
+
+    for await (const batch of ctx.db
+      .query("auditBatches")
+      .withIndex("by_portfolio_time", (q) => q.eq("portfolioId", portfolioId))
+      .order("desc")) {
+      if (reverted.has(batch.batchId)) continue;
+      if (batch.revertsBatchIds) {
+        batch.revertsBatchIds.forEach((batchId) => reverted.add(batchId));
+        continue;
+      }
+      if (isDailyOnlyBatch(await loadBatchEntries(ctx, batch.batchId))) continue;
+      target = batch;
+      break;
+    }
+
+    if (!target) {
+      throw new Error("Nothing to undo");
+    }
+
+    const auditor = createAuditor(ctx, {
+      portfolioId,
+      mutation: "audit:undoLast",
+      actor,
+      revertsBatchIds: [target.batchId],
+    });
+    await revertBatches(ctx, auditor, portfolioId, [target]);
+
+    return { batchId: target.batchId, mutation: target.mutation, timestamp: target.timestamp };
+  },
+});
+
+/**
+ * Return the portfolio to its state at `timestamp` (ms) by rolling back every
+ * batch recorded after it, undo/restore batches included.
+ */
+export const restoreToPoint = mutation({
+  args: {
+    portfolioId: v.string(),
+    timestamp: v.number(),
+    actor: v.optional(v.string()),
+  },
+  handler: async (ctx, { portfolioId, timestamp, actor }) => {
+    const batches = await ctx.db
+      .query("auditBatches")
+      .withIndex("by_portfolio_time", (q) => q.eq("portfolioId", portfolioId).gt("timestamp", timestamp))
+      .order("desc")
+      .collect();
+
+    if (batches.length === 0) {
+      return { revertedBatchCount: 0 };
+    }
+
+    const auditor = createAuditor(ctx, {
+      portfolioId,
+      mutation: "audit:restoreToPoint",
+      actor,
+      revertsBatchIds: batches.map((batch) => batch.batchId),
+    });
+    await revertBatches(ctx, auditor, portfolioId, batches);
+
+    return { revertedBatchCount: batches.length };
+  },
+});
@@ -0,0 +1,75 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+/**
+ * Stored daily closes of each requested asset within the range, in date order
+ */
+export const list = query({
+  args: {
+    priceIds: v.array(v.string()),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const results = await Promise.all(
+      args.priceIds.map(async (priceId) => {
+        const docs = await ctx.db
+          .query("benchmarkPrices")
+          .withIndex("by_price_date", (q) => {
+            const byPriceId = q.eq("priceId", priceId);
+            if (args.startDate && args.endDate) {
+              return byPriceId.gte("date", args.startDate).lte("date", args.endDate);
+            }
+            if (args.startDate) {
+              return byPriceId.gte("date", args.startDate);
+            }
+            if (args.endDate) {
+              return byPriceId.lte("date", args.endDate);
+            }
+            return byPriceId;
+          })
+          .order("asc")
+          .collect();
+
+        return docs.map((doc) => ({ priceId: doc.priceId, date: doc.date, price: doc.price }));
+      })
+    );
+
+    return results.flat();
+  },
+});
+
+export const upsertMany = mutation({
+  args: {
+    priceId: v.string(),
+    prices: v.array(v.object({ date: v.string(), price: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const entry of args.prices) {
+      const existing = await ctx.db
+        .query("benchmarkPrices")
+        .withIndex("by_price_date", (q) => q.eq("priceId", args.priceId).eq("date", entry.date))
+        .unique();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          price: entry.price,
+          updatedAt: now,
+        });
+        continue;
+      }
+
+      await ctx.db.insert("benchmarkPrices", {
+        priceId: args.priceId,
+        date: entry.date,
+        price: entry.price,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { priceCount: args.prices.length };
+  },
+});
@@ -0,0 +1,150 @@
+import { mutation, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { Auditor, createAuditor } from "./audit";
+import { CASH_CATEGORY, DEFAULT_CATEGORIES, UNCATEGORIZED_COLOR } from "../src/lib/constants/portfolio-data";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Categories stored before aggregateSymbol existed keep their default
+function getAggregateSymbol(doc: Doc<"portfolioCategories">) {
+  const symbol =
+    doc.aggregateSymbol ?? DEFAULT_CATEGORIES.find((category) => category.id === doc.categoryId)?.aggregateSymbol;
+  return symbol || undefined;
+}
+
+function toCategory(doc: Doc<"portfolioCategories">) {
+  return {
+    id: doc.categoryId,
+    name: doc.name,
+    color: doc.color,
+    sortOrder: doc.sortOrder,
+    targetWeight: doc.targetWeight,
+    tolerance: doc.tolerance,
+    aggregateSymbol: getAggregateSymbol(doc),
+  };
+}
+
+async function getCategoryDocs(ctx: any, portfolioId: string): Promise<Doc<"portfolioCategories">[]> {
+  return ctx.db
+    .query("portfolioCategories")
+    .withIndex("by_category_id", (q: any) => q.eq("portfolioId", portfolioId))
+    .collect();
+}
+
+/**
+ * Categories of a portfolio in display order: the built-in defaults until it stores its own.
+ */
+export async function loadCategories(ctx: any, portfolioId: string) {
+  const docs = await getCategoryDocs(ctx, portfolioId);
+  if (docs.length === 0) return DEFAULT_CATEGORIES;
+
+  return docs.map(toCategory).sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+}
+
+// Stored categories replace the defaults entirely, so the first write stores the defaults as well
+export async function ensureStoredCategories(ctx: any, auditor: Auditor, portfolioId: string) {
+  const docs = await getCategoryDocs(ctx, portfolioId);
+  if (docs.length > 0) return docs;
+
+  const now = Date.now();
+  for (const category of DEFAULT_CATEGORIES) {
+    await auditor.insert("portfolioCategories", {
+      portfolioId,
+      categoryId: category.id,
+      name: category.name,
+      color: category.color,
+      sortOrder: category.sortOrder,
+      aggregateSymbol: category.aggregateSymbol,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  return getCategoryDocs(ctx, portfolioId);
+}
+
+export const list = query({
+  args: { portfolioId: v.string() },
+  handler: async (ctx, args) => {
+    return loadCategories(ctx, args.portfolioId);
+  },
+});
+
+/**
+ * Create a category or update the given fields of an existing one.
+ * New categories default to a neutral color and are listed after the others.
+ * An empty aggregateSymbol stops the category collapsing into one line.
+ */
+export const upsert = mutation({
+  args: {
+    portfolioId: v.string(),
+    categoryId: v.string(),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+    sortOrder: v.optional(v.number()),
+    aggregateSymbol: v.optional(v.string()),
+    actor: v.optional(v.string()),
+  },
+  handler: async (ctx, { portfolioId, categoryId, actor, ...fields }) => {
+    if (categoryId === CASH_CATEGORY.id) {
+      throw new Error(`Category ${CASH_CATEGORY.id} is reserved for the fund's cash position`);
+    }
+    if (fields.color !== undefined && !HEX_COLOR.test(fields.color)) {
+      throw new Error(`Invalid color ${fields.color}: expected #RRGGBB`);
+    }
+
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "categories:upsert", actor });
+    const docs = await ensureStoredCategories(ctx, auditor, portfolioId);
+    const existing = docs.find((doc) => doc.categoryId === categoryId);
+    const now = Date.now();
+
+    if (existing) {
+      const changes = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+      await auditor.patch("portfolioCategories", existing, { ...changes, updatedAt: now });
+      return existing._id;
+    }
+
+    return auditor.insert("portfolioCategories", {
+      portfolioId,
+      categoryId,
+      name: fields.name ?? categoryId,
+      color: fields.color ?? UNCATEGORIZED_COLOR,
+      sortOrder: fields.sortOrder ?? Math.max(0, ...docs.map((doc) => doc.sortOrder)) + 10,
+      aggregateSymbol: fields.aggregateSymbol,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Delete a category. Refused while any token still uses it as its category or a tag.
+ */
+export const remove = mutation({
+  args: {
+    portfolioId: v.string(),
+    categoryId: v.string(),
+    actor: v.optional(v.string()),
+  },
+  handler: async (ctx, { portfolioId, categoryId, actor }) => {
+    const tokens = await ctx.db
+      .query("portfolioTokens")
+      .withIndex("by_symbol", (q) => q.eq("portfolioId", portfolioId))
+      .collect();
+    const users = tokens.filter((token) => token.category === categoryId || token.tags?.includes(categoryId));
+    if (users.length > 0) {
+      throw new Error(
+        `Category ${categoryId} is used by ${users.map((token) => token.symbol).join(", ")}; recategorize them first`
+      );
+    }
+
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "categories:remove", actor });
+    const docs = await ensureStoredCategories(ctx, auditor, portfolioId);
+    const existing = docs.find((doc) => doc.categoryId === categoryId);
+    if (!existing) {
+      throw new Error(`Category ${categoryId} not found`);
+    }
+
+    await auditor.delete("portfolioCategories", existing);
+  },
+});
@@ -0,0 +1,86 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+/**
+ * Latest stored rate on or before `date` (rates are only published on business days)
+ */
+export async function findFxRate(ctx: any, currency: string, date: string) {
+  const doc = await ctx.db
+    .query("fxRates")
+    .withIndex("by_currency_date", (q: any) => q.eq("currency", currency).lte("date", date))
+    .order("desc")
+    .first();
+
+  return doc ? { date: doc.date as string, rate: doc.rate as number } : null;
+}
+
+export const list = query({
+  args: {
+    currency: v.string(),
+    startDate: v.optional(v.string()),
+    endDate: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const docs = await ctx.db
+      .query("fxRates")
+      .withIndex("by_currency_date", (q) => {
+        const byCurrency = q.eq("currency", args.currency);
+        if (args.startDate && args.endDate) {
+          return byCurrency.gte("date", args.startDate).lte("date", args.endDate);
+        }
+        if (args.startDate) {
+          return byCurrency.gte("date", args.startDate);
+        }
+        if (args.endDate) {
+          return byCurrency.lte("date", args.endDate);
+        }
+        return byCurrency;
+      })
+      .order("asc")
+      .collect();
+
+    return docs.map((doc) => ({ date: doc.date, rate: doc.rate }));
+  },
+});
+
+export const getRate = query({
+  args: { currency: v.string(), date: v.string() },
+  handler: async (ctx, args) => {
+    return findFxRate(ctx, args.currency, args.date);
+  },
+});
+
+export const upsertMany = mutation({
+  args: {
+    currency: v.string(),
+    rates: v.array(v.object({ date: v.string(), rate: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const entry of args.rates) {
+      const existing = await ctx.db
+        .query("fxRates")
+        .withIndex("by_currency_date", (q) => q.eq("currency", args.currency).eq("date", entry.date))
+        .unique();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          rate: entry.rate,
+          updatedAt: now,
+        });
+        continue;
+      }
+
+      await ctx.db.insert("fxRates", {
+        currency: args.currency,
+        date: entry.date,
+        rate: entry.rate,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { rateCount: args.rates.length };
+  },
+});
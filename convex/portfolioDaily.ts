@@ -1,8 +1,11 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { createAuditor } from "./audit";
+import { applyLookback, calculateRiskStatistics, toQuotaSeries } from "../src/lib/utils/risk-statistics";
 
 export const list = query({
   args: {
+    portfolioId: v.string(),
     startDate: v.optional(v.string()),
     endDate: v.optional(v.string()),
   },
@@ -10,38 +13,64 @@ export const list = query({
     return ctx.db
       .query("portfolioDaily")
       .withIndex("by_date", (q) => {
+        const byPortfolio = q.eq("portfolioId", args.portfolioId);
         if (args.startDate && args.endDate) {
-          return q.gte("date", args.startDate).lte("date", args.endDate);
+          return byPortfolio.gte("date", args.startDate).lte("date", args.endDate);
         }
         if (args.startDate) {
-          return q.gte("date", args.startDate);
+          return byPortfolio.gte("date", args.startDate);
         }
         if (args.endDate) {
-          return q.lte("date", args.endDate);
+          return byPortfolio.lte("date", args.endDate);
         }
-        return q;
+        return byPortfolio;
       })
       .order("asc")
       .collect();
   },
 });
 
+/**
+ * Risk statistics of the stored USD quota series, over the last `lookbackDays` when given.
+ */
+export const riskStatistics = query({
+  args: {
+    portfolioId: v.string(),
+    lookbackDays: v.optional(v.number()),
+    riskFreeRate: v.optional(v.number()),
+    confidence: v.optional(v.number()),
+  },
+  handler: async (ctx, { portfolioId, lookbackDays, riskFreeRate, confidence }) => {
+    const entries = await ctx.db
+      .query("portfolioDaily")
+      .withIndex("by_date", (q) => q.eq("portfolioId", portfolioId))
+      .order("asc")
+      .collect();
+
+    const series = applyLookback(toQuotaSeries(entries), lookbackDays);
+    return calculateRiskStatistics(series, { riskFreeRate, confidence });
+  },
+});
+
 export const upsert = mutation({
   args: {
+    portfolioId: v.string(),
     date: v.string(),
     portfolioValue: v.number(),
     totalShares: v.number(),
+    actor: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { actor, ...args }) => {
     const existing = await ctx.db
       .query("portfolioDaily")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
+      .withIndex("by_date", (q) => q.eq("portfolioId", args.portfolioId).eq("date", args.date))
       .unique();
 
     const now = Date.now();
+    const auditor = createAuditor(ctx, { portfolioId: args.portfolioId, mutation: "portfolioDaily:upsert", actor });
 
     if (existing) {
-      await ctx.db.patch(existing._id, {
+      await auditor.patch("portfolioDaily", existing, {
         portfolioValue: args.portfolioValue,
         totalShares: args.totalShares,
         updatedAt: now,
@@ -49,7 +78,8 @@ export const upsert = mutation({
       return existing._id;
     }
 
-    return ctx.db.insert("portfolioDaily", {
+    return auditor.insert("portfolioDaily", {
+      portfolioId: args.portfolioId,
       date: args.date,
       portfolioValue: args.portfolioValue,
       totalShares: args.totalShares,
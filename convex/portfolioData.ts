@@ -1,111 +1,307 @@
 import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
-
-const SETTINGS_KEY = "default";
+import { Doc } from "./_generated/dataModel";
+import { Infer, v } from "convex/values";
+import { Auditor, createAuditor, deleteDailyFromDate } from "./audit";
+import { loadCategories } from "./categories";
+import { findFxRate } from "./fxRates";
+import { diffLedgerIssues, hasLedgerErrors, validateLedger } from "../src/lib/utils/ledger-validation";
+import { diffFields, diffRecords, getProvidedFields } from "../src/lib/utils/snapshot-diff";
+import type { SnapshotDiff } from "../src/lib/types/portfolio";
 
 const tokenValidator = {
   tokenId: v.string(),
   symbol: v.string(),
   name: v.string(),
-  category: v.union(
-    v.literal("Btc"),
-    v.literal("Eth"),
-    v.literal("AI"),
-    v.literal("Gaming/Meme"),
-    v.literal("Defi"),
-    v.literal("Micro"),
-    v.literal("Privacy")
-  ),
+  category: v.string(),
+  tags: v.optional(v.array(v.string())),
+  targetWeight: v.optional(v.number()),
+  tolerance: v.optional(v.number()),
   cmcSymbol: v.optional(v.string()),
   preferredAPI: v.union(v.literal("coingecko"), v.literal("coinmarketcap")),
-  specialCalculation: v.optional(
-    v.union(v.literal("ETH_AMOUNT"), v.literal("BTC_AMOUNT"), v.literal("REGULAR"))
+  priceProxy: v.optional(
+    v.object({
+      priceId: v.string(),
+      ratios: v.optional(v.array(v.object({ date: v.string(), ratio: v.number() }))),
+    })
   ),
 } as const;
 
 const transactionValidator = {
   transactionId: v.string(),
   date: v.string(),
-  type: v.union(v.literal("DEPOSIT"), v.literal("WITHDRAW"), v.literal("BUY"), v.literal("SELL")),
+  timestamp: v.optional(v.string()),
+  sequence: v.optional(v.number()),
+  type: v.union(
+    v.literal("DEPOSIT"),
+    v.literal("WITHDRAW"),
+    v.literal("BUY"),
+    v.literal("SELL"),
+    v.literal("FEE"),
+    v.literal("INCOME"),
+    v.literal("REWARD"),
+    v.literal("AIRDROP"),
+    v.literal("SWAP")
+  ),
   tokenSymbol: v.optional(v.string()),
+  fromSymbol: v.optional(v.string()),
+  fromAmount: v.optional(v.number()),
+  toSymbol: v.optional(v.string()),
+  toAmount: v.optional(v.number()),
+  lotIds: v.optional(v.array(v.string())),
+  investorId: v.optional(v.string()),
   amount: v.number(),
   priceAtTransaction: v.optional(v.number()),
   quotaValueAtTransaction: v.optional(v.number()),
+  quotaValueSource: v.optional(
+    v.union(v.literal("manual"), v.literal("daily"), v.literal("historical"), v.literal("initial"))
+  ),
+  currency: v.optional(v.string()),
+  fxRateAtTransaction: v.optional(v.number()),
   usdValue: v.number(),
 } as const;
 
+const investorValidator = {
+  investorId: v.string(),
+  name: v.string(),
+} as const;
+
 const settingsValidator = {
   baselineTotalValue: v.number(),
   initialQuotaValue: v.number(),
+  managementFeeRate: v.optional(v.number()),
+  performanceFeeRate: v.optional(v.number()),
+  feeCrystallization: v.optional(
+    v.union(v.literal("MONTHLY"), v.literal("QUARTERLY"), v.literal("ANNUAL"))
+  ),
+  incomeCostBasis: v.optional(v.union(v.literal("ZERO"), v.literal("FAIR_VALUE"))),
+  lotMatchingMethod: v.optional(
+    v.union(
+      v.literal("AVERAGE"),
+      v.literal("FIFO"),
+      v.literal("LIFO"),
+      v.literal("HIFO"),
+      v.literal("SPECIFIC")
+    )
+  ),
+  reportingCurrency: v.optional(v.string()),
 } as const;
 
+const snapshotValidator = {
+  tokens: v.array(v.object(tokenValidator)),
+  transactions: v.array(v.object(transactionValidator)),
+  investors: v.array(v.object(investorValidator)),
+  settings: v.object(settingsValidator),
+} as const;
+
+const snapshotObject = v.object(snapshotValidator);
+type SnapshotInput = Infer<typeof snapshotObject>;
+
+// Tokens stored before price proxies flagged ETH/BTC-denominated amounts instead
+export function getLegacyPriceProxy(specialCalculation: Doc<"portfolioTokens">["specialCalculation"]) {
+  if (specialCalculation === "ETH_AMOUNT") return { priceId: "ethereum" };
+  if (specialCalculation === "BTC_AMOUNT") return { priceId: "bitcoin" };
+  return undefined;
+}
+
+function toToken(t: Omit<Doc<"portfolioTokens">, "_id" | "_creationTime" | "createdAt" | "updatedAt">) {
+  return {
+    id: t.tokenId,
+    symbol: t.symbol,
+    name: t.name,
+    category: t.category,
+    tags: t.tags,
+    targetWeight: t.targetWeight,
+    tolerance: t.tolerance,
+    cmcSymbol: t.cmcSymbol,
+    preferredAPI: t.preferredAPI,
+    priceProxy: t.priceProxy ?? getLegacyPriceProxy(t.specialCalculation),
+  };
+}
+
+function toTransaction(tx: Omit<Doc<"portfolioTransactions">, "_id" | "_creationTime" | "createdAt" | "updatedAt">) {
+  return {
+    id: tx.transactionId,
+    date: tx.date,
+    timestamp: tx.timestamp,
+    sequence: tx.sequence,
+    type: tx.type,
+    tokenSymbol: tx.tokenSymbol,
+    fromSymbol: tx.fromSymbol,
+    fromAmount: tx.fromAmount,
+    toSymbol: tx.toSymbol,
+    toAmount: tx.toAmount,
+    lotIds: tx.lotIds,
+    investorId: tx.investorId,
+    amount: tx.amount,
+    priceAtTransaction: tx.priceAtTransaction,
+    quotaValueAtTransaction: tx.quotaValueAtTransaction,
+    quotaValueSource: tx.quotaValueSource,
+    currency: tx.currency,
+    fxRateAtTransaction: tx.fxRateAtTransaction,
+    usdValue: tx.usdValue,
+    voidedAt: tx.voidedAt !== undefined ? new Date(tx.voidedAt).toISOString() : undefined,
+    voidReason: tx.voidReason,
+  };
+}
+
+// reject (default): refuse writes that introduce ledger errors; warn: log them and write anyway
+const validationModeValidator = v.optional(v.union(v.literal("reject"), v.literal("warn")));
+
+// Who made the change, recorded in the audit log when the caller is not authenticated
+const actorValidator = v.optional(v.string());
+
+function getSettingsDoc(ctx: any, portfolioId: string): Promise<Doc<"portfolioSettings"> | null> {
+  return ctx.db
+    .query("portfolioSettings")
+    .withIndex("by_portfolio_id", (q: any) => q.eq("portfolioId", portfolioId))
+    .unique();
+}
+
 export const getSnapshot = query({
-  args: {},
-  handler: async (ctx) => {
-    const [tokens, transactions, settingsDoc] = await Promise.all([
-      ctx.db.query("portfolioTokens").order("asc").collect(),
-      ctx.db.query("portfolioTransactions").order("asc").collect(),
+  args: { portfolioId: v.string() },
+  handler: async (ctx, args) => {
+    const [tokens, categories, transactions, investors, settingsDoc] = await Promise.all([
+      ctx.db
+        .query("portfolioTokens")
+        .withIndex("by_symbol", (q) => q.eq("portfolioId", args.portfolioId))
+        .collect(),
+      loadCategories(ctx, args.portfolioId),
       ctx.db
-        .query("portfolioSettings")
-        .withIndex("by_key", (q) => q.eq("key", SETTINGS_KEY))
-        .unique(),
+        .query("portfolioTransactions")
+        .withIndex("by_date", (q) => q.eq("portfolioId", args.portfolioId))
+        .order("asc")
+        .collect(),
+      ctx.db
+        .query("portfolioInvestors")
+        .withIndex("by_investor_id", (q) => q.eq("portfolioId", args.portfolioId))
+        .collect(),
+      getSettingsDoc(ctx, args.portfolioId),
     ]);
 
     return {
-      tokens: tokens.map((t) => ({
-        id: t.tokenId,
-        symbol: t.symbol,
-        name: t.name,
-        category: t.category,
-        cmcSymbol: t.cmcSymbol,
-        preferredAPI: t.preferredAPI,
-        specialCalculation: t.specialCalculation,
-      })),
-      transactions: transactions.map((tx) => ({
-        id: tx.transactionId,
-        date: tx.date,
-        type: tx.type,
-        tokenSymbol: tx.tokenSymbol,
-        amount: tx.amount,
-        priceAtTransaction: tx.priceAtTransaction,
-        quotaValueAtTransaction: tx.quotaValueAtTransaction,
-        usdValue: tx.usdValue,
+      tokens: tokens.map(toToken),
+      categories,
+      transactions: transactions.map(toTransaction),
+      investors: investors.map((investor) => ({
+        id: investor.investorId,
+        name: investor.name,
       })),
       settings: settingsDoc
         ? {
             baselineTotalValue: settingsDoc.baselineTotalValue,
             initialQuotaValue: settingsDoc.initialQuotaValue,
+            managementFeeRate: settingsDoc.managementFeeRate,
+            performanceFeeRate: settingsDoc.performanceFeeRate,
+            feeCrystallization: settingsDoc.feeCrystallization,
+            incomeCostBasis: settingsDoc.incomeCostBasis,
+            lotMatchingMethod: settingsDoc.lotMatchingMethod,
+            reportingCurrency: settingsDoc.reportingCurrency,
           }
         : null,
     };
   },
 });
 
+/**
+ * Convert a non-USD DEPOSIT/WITHDRAW to USD at the stored FX rate on its date.
+ * `amount` stays in the original currency; `usdValue` is derived from it.
+ */
+type FxConvertible = {
+  transactionId: string;
+  date: string;
+  type: string;
+  amount: number;
+  usdValue: number;
+  currency?: string;
+  fxRateAtTransaction?: number;
+};
+
+async function applyTransactionFx<T extends FxConvertible>(ctx: any, tx: T): Promise<T> {
+  if (tx.type !== "DEPOSIT" && tx.type !== "WITHDRAW") return tx;
+  if (!tx.currency || tx.currency === "USD") return tx;
+
+  let rate = tx.fxRateAtTransaction;
+  if (rate === undefined) {
+    const stored = await findFxRate(ctx, tx.currency, tx.date);
+    if (!stored) {
+      throw new Error(
+        `Cannot convert ${tx.transactionId} from ${tx.currency}: no USD/${tx.currency} rate on or before ${tx.date}. ` +
+          "Sync rates with the fx CLI command or provide fxRateAtTransaction."
+      );
+    }
+    rate = stored.rate;
+  }
+
+  return { ...tx, fxRateAtTransaction: rate, usdValue: tx.amount / rate };
+}
+
+async function applySnapshotFx(ctx: any, snapshot: SnapshotInput): Promise<SnapshotInput> {
+  const transactions: SnapshotInput["transactions"] = [];
+  for (const tx of snapshot.transactions) {
+    transactions.push(await applyTransactionFx(ctx, tx));
+  }
+  return { ...snapshot, transactions };
+}
+
 export const replaceSnapshot = mutation({
   args: {
-    tokens: v.array(v.object(tokenValidator)),
-    transactions: v.array(v.object(transactionValidator)),
-    settings: v.object(settingsValidator),
+    portfolioId: v.string(),
+    ...snapshotValidator,
+    validationMode: validationModeValidator,
+    actor: actorValidator,
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, { validationMode, portfolioId, actor, ...rawArgs }) => {
+    const args = await applySnapshotFx(ctx, rawArgs);
+
+    const issues = validateLedger(args.transactions.map(toTransaction), args.tokens.map(toToken), {
+      initialQuotaValue: args.settings.initialQuotaValue,
+    });
+    if (hasLedgerErrors(issues) && validationMode !== "warn") {
+      const details = issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => `${issue.transactionId}: ${issue.message}`)
+        .join("; ");
+      throw new Error(`Snapshot rejected, ledger has integrity errors: ${details}`);
+    }
+
     const now = Date.now();
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "portfolioData:replaceSnapshot", actor });
 
-    const [existingTokens, existingTransactions, existingSettings, existingDaily] = await Promise.all([
-      ctx.db.query("portfolioTokens").collect(),
-      ctx.db.query("portfolioTransactions").collect(),
-      ctx.db.query("portfolioSettings").collect(),
-      ctx.db.query("portfolioDaily").collect(),
-    ]);
+    const [existingTokens, existingTransactions, existingInvestors, existingSettings, existingDaily] =
+      await Promise.all([
+        ctx.db
+          .query("portfolioTokens")
+          .withIndex("by_symbol", (q) => q.eq("portfolioId", portfolioId))
+          .collect(),
+        ctx.db
+          .query("portfolioTransactions")
+          .withIndex("by_date", (q) => q.eq("portfolioId", portfolioId))
+          .collect(),
+        ctx.db
+          .query("portfolioInvestors")
+          .withIndex("by_investor_id", (q) => q.eq("portfolioId", portfolioId))
+          .collect(),
+        ctx.db
+          .query("portfolioSettings")
+          .withIndex("by_portfolio_id", (q) => q.eq("portfolioId", portfolioId))
+          .collect(),
+        ctx.db
+          .query("portfolioDaily")
+          .withIndex("by_date", (q) => q.eq("portfolioId", portfolioId))
+          .collect(),
+      ]);
 
     await Promise.all([
-      ...existingTokens.map((doc) => ctx.db.delete(doc._id)),
-      ...existingTransactions.map((doc) => ctx.db.delete(doc._id)),
-      ...existingSettings.map((doc) => ctx.db.delete(doc._id)),
-      ...existingDaily.map((doc) => ctx.db.delete(doc._id)),
+      ...existingTokens.map((doc) => auditor.delete("portfolioTokens", doc)),
+      ...existingTransactions.map((doc) => auditor.delete("portfolioTransactions", doc)),
+      ...existingInvestors.map((doc) => auditor.delete("portfolioInvestors", doc)),
+      ...existingSettings.map((doc) => auditor.delete("portfolioSettings", doc)),
+      ...existingDaily.map((doc) => auditor.delete("portfolioDaily", doc)),
     ]);
 
-    for (const token of args.tokens) {
-      await ctx.db.insert("portfolioTokens", {
+    for (const token of withStoredAllocations(args.tokens, existingTokens)) {
+      await auditor.insert("portfolioTokens", {
+        portfolioId,
         ...token,
         createdAt: now,
         updatedAt: now,
@@ -113,17 +309,26 @@ export const replaceSnapshot = mutation({
     }
 
     for (const tx of args.transactions) {
-      await ctx.db.insert("portfolioTransactions", {
+      await auditor.insert("portfolioTransactions", {
+        portfolioId,
         ...tx,
         createdAt: now,
         updatedAt: now,
       });
     }
 
-    await ctx.db.insert("portfolioSettings", {
-      key: SETTINGS_KEY,
-      baselineTotalValue: args.settings.baselineTotalValue,
-      initialQuotaValue: args.settings.initialQuotaValue,
+    for (const investor of args.investors) {
+      await auditor.insert("portfolioInvestors", {
+        portfolioId,
+        ...investor,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await auditor.insert("portfolioSettings", {
+      portfolioId,
+      ...args.settings,
       createdAt: now,
       updatedAt: now,
     });
@@ -131,68 +336,603 @@ export const replaceSnapshot = mutation({
     return {
       tokenCount: args.tokens.length,
       transactionCount: args.transactions.length,
+      investorCount: args.investors.length,
     };
   },
 });
 
-async function deleteDailyFromDate(ctx: any, fromDate: string) {
+/**
+ * Shift stored NAV from a date onwards by a fixed USD amount. Fees are pure cash
+ * outflows, so daily snapshots can be corrected in place instead of recomputed.
+ */
+async function adjustDailyFromDate(
+  ctx: any,
+  auditor: Auditor,
+  portfolioId: string,
+  fromDate: string,
+  valueDelta: number
+) {
   const docs = await ctx.db
     .query("portfolioDaily")
-    .withIndex("by_date", (q: any) => q.gte("date", fromDate))
+    .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId).gte("date", fromDate))
     .collect();
 
-  await Promise.all(docs.map((doc: any) => ctx.db.delete(doc._id)));
+  const now = Date.now();
+  await Promise.all(
+    docs.map((doc: any) =>
+      auditor.patch("portfolioDaily", doc, {
+        portfolioValue: doc.portfolioValue + valueDelta,
+        updatedAt: now,
+      })
+    )
+  );
+}
+
+function getPreviousDate(date: string): string {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
 }
 
-export const addTransaction = mutation({
-  args: transactionValidator,
+/**
+ * Derive the quota value for a DEPOSIT/WITHDRAW on `date` from stored data:
+ * the initial quota when nothing (voided entries aside) happened before that date,
+ * otherwise the previous day's portfolioDaily NAV. Returns null when that row is missing.
+ * /api/quota values at the same previous-day close when there is no row.
+ */
+async function resolveQuotaValueFromDaily(ctx: any, portfolioId: string, date: string) {
+  const settings = await getSettingsDoc(ctx, portfolioId);
+  const initialQuotaValue = settings?.initialQuotaValue ?? 1;
+
+  const earlierTransaction = await ctx.db
+    .query("portfolioTransactions")
+    .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId).lt("date", date))
+    .filter((q: any) => q.eq(q.field("voidedAt"), undefined))
+    .first();
+
+  if (!earlierTransaction) {
+    return { quotaValue: initialQuotaValue, source: "initial" as const };
+  }
+
+  const previousDay = await ctx.db
+    .query("portfolioDaily")
+    .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId).eq("date", getPreviousDate(date)))
+    .unique();
+
+  if (!previousDay) {
+    return null;
+  }
+
+  if (previousDay.totalShares <= 0) {
+    return { quotaValue: initialQuotaValue, source: "initial" as const };
+  }
+
+  return {
+    quotaValue: previousDay.portfolioValue / previousDay.totalShares,
+    source: "daily" as const,
+  };
+}
+
+export const resolveQuotaValue = query({
+  args: { portfolioId: v.string(), date: v.string() },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
+    return resolveQuotaValueFromDaily(ctx, args.portfolioId, args.date);
+  },
+});
+
+async function loadLedger(ctx: any, portfolioId: string) {
+  const [tokens, transactions, settings] = await Promise.all([
+    ctx.db
+      .query("portfolioTokens")
+      .withIndex("by_symbol", (q: any) => q.eq("portfolioId", portfolioId))
+      .collect(),
+    ctx.db
       .query("portfolioTransactions")
-      .withIndex("by_transaction_id", (q) => q.eq("transactionId", args.transactionId))
-      .unique();
+      .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId))
+      .order("asc")
+      .collect(),
+    getSettingsDoc(ctx, portfolioId),
+  ]);
+
+  return {
+    tokens: (tokens as Doc<"portfolioTokens">[]).map(toToken),
+    transactions: (transactions as Doc<"portfolioTransactions">[]).map(toTransaction),
+    initialQuotaValue: settings?.initialQuotaValue ?? 1,
+  };
+}
+
+/**
+ * Reject a ledger change that introduces integrity errors (unless validationMode is
+ * "warn"). Only issues the change creates count; pre-existing ones are ignored.
+ * Returns the new issues it let through, for the mutation to report to its caller.
+ */
+function checkLedgerChange(
+  ledger: Awaited<ReturnType<typeof loadLedger>>,
+  nextTransactions: ReturnType<typeof toTransaction>[],
+  subject: string,
+  validationMode: "reject" | "warn" | undefined,
+  nextTokens: ReturnType<typeof toToken>[] = ledger.tokens
+) {
+  const validationOptions = { initialQuotaValue: ledger.initialQuotaValue };
+  const newIssues = diffLedgerIssues(
+    validateLedger(ledger.transactions, ledger.tokens, validationOptions),
+    validateLedger(nextTransactions, nextTokens, validationOptions)
+  );
+
+  if (hasLedgerErrors(newIssues) && validationMode !== "warn") {
+    const details = newIssues
+      .map((issue) => `[${issue.severity}] ${issue.transactionId}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`${subject} breaks ledger integrity: ${details}`);
+  }
+  return newIssues;
+}
+
+function getTransactionDoc(
+  ctx: any,
+  portfolioId: string,
+  transactionId: string
+): Promise<Doc<"portfolioTransactions"> | null> {
+  return ctx.db
+    .query("portfolioTransactions")
+    .withIndex("by_transaction_id", (q: any) =>
+      q.eq("portfolioId", portfolioId).eq("transactionId", transactionId)
+    )
+    .unique();
+}
+
+export const validate = query({
+  args: { portfolioId: v.string() },
+  handler: async (ctx, args) => {
+    const ledger = await loadLedger(ctx, args.portfolioId);
+    return validateLedger(ledger.transactions, ledger.tokens, {
+      initialQuotaValue: ledger.initialQuotaValue,
+    });
+  },
+});
+
+export const addTransaction = mutation({
+  args: {
+    portfolioId: v.string(),
+    ...transactionValidator,
+    validationMode: validationModeValidator,
+    actor: actorValidator,
+  },
+  handler: async (ctx, { validationMode, portfolioId, actor, ...rawArgs }) => {
+    const args = await applyTransactionFx(ctx, { ...rawArgs });
+
+    if (args.type === "DEPOSIT" || args.type === "WITHDRAW") {
+      if (args.quotaValueAtTransaction === undefined) {
+        const resolved = await resolveQuotaValueFromDaily(ctx, portfolioId, args.date);
+        if (!resolved) {
+          throw new Error(
+            `Cannot derive quota value for ${args.transactionId}: no portfolioDaily entry for ${getPreviousDate(args.date)}. ` +
+              "Backfill history, use the CLI (historical prices), or provide quotaValueAtTransaction."
+          );
+        }
+        args.quotaValueAtTransaction = resolved.quotaValue;
+        args.quotaValueSource = resolved.source;
+      } else if (args.quotaValueSource === undefined) {
+        args.quotaValueSource = "manual";
+      }
+    }
+
+    const existing = await getTransactionDoc(ctx, portfolioId, args.transactionId);
+
+    const ledger = await loadLedger(ctx, portfolioId);
+    const nextTransactions = existing
+      ? ledger.transactions.map((tx) =>
+          tx.id === args.transactionId ? toTransaction({ ...existing, ...args }) : tx
+        )
+      : [...ledger.transactions, toTransaction(args)];
+    const issues = checkLedgerChange(ledger, nextTransactions, `Transaction ${args.transactionId}`, validationMode);
 
     const now = Date.now();
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "portfolioData:addTransaction", actor });
+    const isFeeAdjustment =
+      args.type === "FEE" && (!existing || (existing.type === "FEE" && existing.date === args.date));
+
+    if (isFeeAdjustment) {
+      await adjustDailyFromDate(ctx, auditor, portfolioId, args.date, (existing?.usdValue ?? 0) - args.usdValue);
+    }
 
     if (existing) {
-      const invalidationDate = existing.date < args.date ? existing.date : args.date;
-      await deleteDailyFromDate(ctx, invalidationDate);
-      await ctx.db.patch(existing._id, {
+      if (!isFeeAdjustment) {
+        const invalidationDate = existing.date < args.date ? existing.date : args.date;
+        await deleteDailyFromDate(ctx, auditor, portfolioId, invalidationDate);
+      }
+      await auditor.patch("portfolioTransactions", existing, {
         ...args,
         updatedAt: now,
       });
-      return existing._id;
+      return { id: existing._id, issues };
     }
 
-    await deleteDailyFromDate(ctx, args.date);
+    if (!isFeeAdjustment) {
+      await deleteDailyFromDate(ctx, auditor, portfolioId, args.date);
+    }
 
-    return ctx.db.insert("portfolioTransactions", {
+    const id = await auditor.insert("portfolioTransactions", {
+      portfolioId,
       ...args,
       createdAt: now,
       updatedAt: now,
     });
+    return { id, issues };
+  },
+});
+
+export const deleteTransaction = mutation({
+  args: {
+    portfolioId: v.string(),
+    transactionId: v.string(),
+    validationMode: validationModeValidator,
+    actor: actorValidator,
+  },
+  handler: async (ctx, { portfolioId, transactionId, validationMode, actor }) => {
+    const existing = await getTransactionDoc(ctx, portfolioId, transactionId);
+    if (!existing) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+
+    const ledger = await loadLedger(ctx, portfolioId);
+    const issues = checkLedgerChange(
+      ledger,
+      ledger.transactions.filter((tx) => tx.id !== transactionId),
+      `Deleting ${transactionId}`,
+      validationMode
+    );
+
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "portfolioData:deleteTransaction", actor });
+    await deleteDailyFromDate(ctx, auditor, portfolioId, existing.date);
+    await auditor.delete("portfolioTransactions", existing);
+    return { id: existing._id, issues };
+  },
+});
+
+/**
+ * Exclude a transaction from every calculation while keeping it (and why it was
+ * voided) in the ledger. Prefer this over deleteTransaction for entries that were
+ * reported or shared before being found wrong.
+ */
+export const voidTransaction = mutation({
+  args: {
+    portfolioId: v.string(),
+    transactionId: v.string(),
+    reason: v.optional(v.string()),
+    validationMode: validationModeValidator,
+    actor: actorValidator,
+  },
+  handler: async (ctx, { portfolioId, transactionId, reason, validationMode, actor }) => {
+    const existing = await getTransactionDoc(ctx, portfolioId, transactionId);
+    if (!existing) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+    if (existing.voidedAt !== undefined) {
+      throw new Error(`Transaction ${transactionId} is already voided`);
+    }
+
+    const now = Date.now();
+    const ledger = await loadLedger(ctx, portfolioId);
+    const issues = checkLedgerChange(
+      ledger,
+      ledger.transactions.map((tx) =>
+        tx.id === transactionId ? { ...tx, voidedAt: new Date(now).toISOString() } : tx
+      ),
+      `Voiding ${transactionId}`,
+      validationMode
+    );
+
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "portfolioData:voidTransaction", actor });
+    await deleteDailyFromDate(ctx, auditor, portfolioId, existing.date);
+    await auditor.patch("portfolioTransactions", existing, {
+      voidedAt: now,
+      voidReason: reason,
+      updatedAt: now,
+    });
+    return { id: existing._id, issues };
+  },
+});
+
+const TOKEN_FIELDS = Object.keys(tokenValidator) as (keyof typeof tokenValidator)[];
+const TRANSACTION_FIELDS = Object.keys(transactionValidator) as (keyof typeof transactionValidator)[];
+const INVESTOR_FIELDS = Object.keys(investorValidator) as (keyof typeof investorValidator)[];
+const SETTINGS_FIELDS = Object.keys(settingsValidator) as (keyof typeof settingsValidator)[];
+
+// Token fields that decide which price a holding is valued at
+const PRICING_FIELDS = ["tokenId", "cmcSymbol", "preferredAPI", "priceProxy"];
+
+/**
+ * Targets and tags are also set outside snapshots (`targets:set`, the CLI `target` command),
+ * so an incoming token that omits them keeps the stored values instead of clearing them.
+ */
+function withStoredAllocations(
+  incomingTokens: SnapshotInput["tokens"],
+  storedTokens: Doc<"portfolioTokens">[]
+): SnapshotInput["tokens"] {
+  const storedBySymbol = new Map(storedTokens.map((token) => [token.symbol, token]));
+  return incomingTokens.map((token) => {
+    const stored = storedBySymbol.get(token.symbol);
+    if (!stored) return token;
+    return {
+      ...token,
+      tags: token.tags ?? stored.tags,
+      targetWeight: token.targetWeight ?? stored.targetWeight,
+      tolerance: token.tolerance ?? stored.tolerance,
+    };
+  });
+}
+
+/**
+ * A foreign-currency flow already stored for the same date and currency converts at its
+ * stored rate when the file omits fxRateAtTransaction, instead of a rate synced since.
+ */
+function withStoredFxRates(
+  incomingTransactions: SnapshotInput["transactions"],
+  storedTransactions: Doc<"portfolioTransactions">[]
+): SnapshotInput["transactions"] {
+  const storedById = new Map(storedTransactions.map((tx) => [tx.transactionId, tx]));
+  return incomingTransactions.map((tx) => {
+    const stored = storedById.get(tx.transactionId);
+    if (tx.fxRateAtTransaction !== undefined || stored?.fxRateAtTransaction === undefined) return tx;
+    if (stored.currency !== tx.currency || stored.date !== tx.date) return tx;
+    return { ...tx, fxRateAtTransaction: stored.fxRateAtTransaction };
+  });
+}
+
+async function loadStoredSnapshot(ctx: any, portfolioId: string) {
+  const [tokens, transactions, investors, settings] = await Promise.all([
+    ctx.db
+      .query("portfolioTokens")
+      .withIndex("by_symbol", (q: any) => q.eq("portfolioId", portfolioId))
+      .collect(),
+    ctx.db
+      .query("portfolioTransactions")
+      .withIndex("by_date", (q: any) => q.eq("portfolioId", portfolioId))
+      .collect(),
+    ctx.db
+      .query("portfolioInvestors")
+      .withIndex("by_investor_id", (q: any) => q.eq("portfolioId", portfolioId))
+      .collect(),
+    getSettingsDoc(ctx, portfolioId),
+  ]);
+
+  return {
+    tokens: tokens as Doc<"portfolioTokens">[],
+    transactions: transactions as Doc<"portfolioTransactions">[],
+    investors: investors as Doc<"portfolioInvestors">[],
+    settings,
+  };
+}
+
+type StoredSnapshot = Awaited<ReturnType<typeof loadStoredSnapshot>>;
+
+function getTransactionSymbols(tx: { tokenSymbol?: string; fromSymbol?: string; toSymbol?: string }) {
+  return [tx.tokenSymbol, tx.fromSymbol, tx.toSymbol].filter((symbol): symbol is string => Boolean(symbol));
+}
+
+/**
+ * Diff an incoming snapshot against the stored one and find the earliest date whose
+ * portfolioDaily rows a merge would change. Removed records only count with `prune`.
+ * Fields a record omits are unchanged: local files usually leave out values filled in
+ * on write (quotaValueAtTransaction, fxRateAtTransaction, ...) or set elsewhere.
+ */
+function computeSnapshotDiff(stored: StoredSnapshot, incoming: SnapshotInput, prune: boolean): SnapshotDiff {
+  const diffOptions = { ignoreOmitted: true };
+  const tokens = diffRecords(stored.tokens, incoming.tokens, (token) => token.symbol, TOKEN_FIELDS, diffOptions);
+  const transactions = diffRecords(
+    stored.transactions,
+    incoming.transactions,
+    (tx) => tx.transactionId,
+    TRANSACTION_FIELDS,
+    diffOptions
+  );
+  const investors = diffRecords(
+    stored.investors,
+    incoming.investors,
+    (investor) => investor.investorId,
+    INVESTOR_FIELDS,
+    diffOptions
+  );
+  // Fee rates, lot matching and reporting currency are also set by upsertSettings and the UI
+  const providedSettings = getProvidedFields(incoming.settings, SETTINGS_FIELDS);
+  const settings = stored.settings ? diffFields(stored.settings, incoming.settings, providedSettings) : providedSettings;
+
+  const storedById = new Map(stored.transactions.map((tx) => [tx.transactionId, tx]));
+  const incomingById = new Map(incoming.transactions.map((tx) => [tx.transactionId, tx]));
+  const allTransactions = [...stored.transactions, ...incoming.transactions];
+  const dates: string[] = [];
+
+  transactions.added.forEach((id) => dates.push(incomingById.get(id)!.date));
+  transactions.changed.forEach(({ key }) => dates.push(storedById.get(key)!.date, incomingById.get(key)!.date));
+  if (prune) {
+    transactions.removed.forEach((id) => {
+      const tx = storedById.get(id)!;
+      if (tx.voidedAt === undefined) dates.push(tx.date);
+    });
+  }
+
+  // A new price source revalues every day the token appears in the ledger
+  const repricedSymbols = new Set(
+    tokens.changed
+      .filter((change) => change.fields.some((field) => PRICING_FIELDS.includes(field)))
+      .map((change) => change.key)
+  );
+  if (repricedSymbols.size > 0) {
+    allTransactions
+      .filter((tx) => getTransactionSymbols(tx).some((symbol) => repricedSymbols.has(symbol)))
+      .forEach((tx) => dates.push(tx.date));
+  }
+
+  // Shares issued without an explicit quota value use the initial one
+  if (settings.includes("initialQuotaValue")) {
+    allTransactions.forEach((tx) => dates.push(tx.date));
+  }
+
+  return {
+    tokens,
+    transactions,
+    investors,
+    settings,
+    invalidateFromDate: dates.length > 0 ? dates.reduce((min, date) => (date < min ? date : min)) : null,
+  };
+}
+
+// Patch payload with only the changed fields the record sets; omitted fields keep their stored value
+function pickFields(record: Record<string, unknown>, fields: string[]) {
+  return fields.reduce<Record<string, unknown>>((picked, field) => {
+    if (record[field] !== undefined) picked[field] = record[field];
+    return picked;
+  }, {});
+}
+
+export const diffSnapshot = query({
+  args: {
+    portfolioId: v.string(),
+    ...snapshotValidator,
+    prune: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { portfolioId, prune, ...rawArgs }) => {
+    const stored = await loadStoredSnapshot(ctx, portfolioId);
+    const incoming = await applySnapshotFx(ctx, {
+      ...rawArgs,
+      transactions: withStoredFxRates(rawArgs.transactions, stored.transactions),
+    });
+    return computeSnapshotDiff(stored, incoming, prune ?? false);
+  },
+});
+
+/**
+ * Apply only the differences between an incoming snapshot and the stored one.
+ * Records missing from the input are kept unless `prune` is set, and portfolioDaily
+ * is cleared only from the earliest affected date instead of wiped.
+ */
+export const mergeSnapshot = mutation({
+  args: {
+    portfolioId: v.string(),
+    ...snapshotValidator,
+    prune: v.optional(v.boolean()),
+    validationMode: validationModeValidator,
+    actor: actorValidator,
+  },
+  handler: async (ctx, { portfolioId, prune, validationMode, actor, ...rawArgs }) => {
+    const stored = await loadStoredSnapshot(ctx, portfolioId);
+    const incoming = await applySnapshotFx(ctx, {
+      ...rawArgs,
+      transactions: withStoredFxRates(rawArgs.transactions, stored.transactions),
+    });
+    const diff = computeSnapshotDiff(stored, incoming, prune ?? false);
+
+    const incomingTokens = new Map(incoming.tokens.map((token) => [token.symbol, token]));
+    const incomingTransactions = new Map(incoming.transactions.map((tx) => [tx.transactionId, tx]));
+    const incomingInvestors = new Map(incoming.investors.map((investor) => [investor.investorId, investor]));
+    const removedTokens = new Set(prune ? diff.tokens.removed : []);
+    const removedTransactions = new Set(prune ? diff.transactions.removed : []);
+
+    const ledger = await loadLedger(ctx, portfolioId);
+    const nextTransactions = [
+      ...stored.transactions
+        .filter((tx) => !removedTransactions.has(tx.transactionId))
+        .map((tx) => toTransaction({ ...tx, ...incomingTransactions.get(tx.transactionId) })),
+      ...diff.transactions.added.map((id) => toTransaction(incomingTransactions.get(id)!)),
+    ];
+    const nextTokens = [
+      ...stored.tokens
+        .filter((token) => !removedTokens.has(token.symbol))
+        .map((token) => toToken({ ...token, ...incomingTokens.get(token.symbol) })),
+      ...diff.tokens.added.map((symbol) => toToken(incomingTokens.get(symbol)!)),
+    ];
+    const issues = checkLedgerChange(ledger, nextTransactions, "Snapshot merge", validationMode, nextTokens);
+
+    const now = Date.now();
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "portfolioData:mergeSnapshot", actor });
+
+    const mergeTable = async <T extends Record<string, unknown>>(
+      table: "portfolioTokens" | "portfolioTransactions" | "portfolioInvestors",
+      storedDocs: any[],
+      keyOf: (doc: any) => string,
+      incomingByKey: Map<string, T>,
+      recordDiff: SnapshotDiff["tokens"]
+    ) => {
+      const storedByKey = new Map(storedDocs.map((doc) => [keyOf(doc), doc]));
+      for (const key of recordDiff.added) {
+        await auditor.insert(table, { portfolioId, ...incomingByKey.get(key)!, createdAt: now, updatedAt: now });
+      }
+      for (const change of recordDiff.changed) {
+        await auditor.patch(table, storedByKey.get(change.key), {
+          ...pickFields(incomingByKey.get(change.key)!, change.fields),
+          updatedAt: now,
+        });
+      }
+      if (prune) {
+        for (const key of recordDiff.removed) {
+          await auditor.delete(table, storedByKey.get(key));
+        }
+      }
+    };
+
+    await mergeTable("portfolioTokens", stored.tokens, (doc) => doc.symbol, incomingTokens, diff.tokens);
+    await mergeTable(
+      "portfolioTransactions",
+      stored.transactions,
+      (doc) => doc.transactionId,
+      incomingTransactions,
+      diff.transactions
+    );
+    await mergeTable(
+      "portfolioInvestors",
+      stored.investors,
+      (doc) => doc.investorId,
+      incomingInvestors,
+      diff.investors
+    );
+
+    if (!stored.settings) {
+      await auditor.insert("portfolioSettings", {
+        portfolioId,
+        ...incoming.settings,
+        createdAt: now,
+        updatedAt: now,
+      });
+    } else if (diff.settings.length > 0) {
+      await auditor.patch("portfolioSettings", stored.settings, {
+        ...pickFields(incoming.settings, diff.settings),
+        updatedAt: now,
+      });
+    }
+
+    if (diff.invalidateFromDate) {
+      await deleteDailyFromDate(ctx, auditor, portfolioId, diff.invalidateFromDate);
+    }
+
+    return { ...diff, issues };
   },
 });
 
 export const upsertToken = mutation({
-  args: tokenValidator,
-  handler: async (ctx, args) => {
+  args: { portfolioId: v.string(), ...tokenValidator, actor: actorValidator },
+  handler: async (ctx, { actor, ...args }) => {
     const existing = await ctx.db
       .query("portfolioTokens")
-      .withIndex("by_symbol", (q) => q.eq("symbol", args.symbol))
+      .withIndex("by_symbol", (q) => q.eq("portfolioId", args.portfolioId).eq("symbol", args.symbol))
       .unique();
 
     const now = Date.now();
+    const auditor = createAuditor(ctx, {
+      portfolioId: args.portfolioId,
+      mutation: "portfolioData:upsertToken",
+      actor,
+    });
 
     if (existing) {
-      await ctx.db.patch(existing._id, {
+      await auditor.patch("portfolioTokens", existing, {
         ...args,
         updatedAt: now,
       });
       return existing._id;
     }
 
-    return ctx.db.insert("portfolioTokens", {
+    return auditor.insert("portfolioTokens", {
       ...args,
       createdAt: now,
       updatedAt: now,
@@ -200,29 +940,61 @@ export const upsertToken = mutation({
   },
 });
 
-export const upsertSettings = mutation({
-  args: settingsValidator,
-  handler: async (ctx, args) => {
+export const upsertInvestor = mutation({
+  args: { portfolioId: v.string(), ...investorValidator, actor: actorValidator },
+  handler: async (ctx, { actor, ...args }) => {
     const existing = await ctx.db
-      .query("portfolioSettings")
-      .withIndex("by_key", (q) => q.eq("key", SETTINGS_KEY))
+      .query("portfolioInvestors")
+      .withIndex("by_investor_id", (q) =>
+        q.eq("portfolioId", args.portfolioId).eq("investorId", args.investorId)
+      )
       .unique();
 
     const now = Date.now();
+    const auditor = createAuditor(ctx, {
+      portfolioId: args.portfolioId,
+      mutation: "portfolioData:upsertInvestor",
+      actor,
+    });
 
     if (existing) {
-      await ctx.db.patch(existing._id, {
-        baselineTotalValue: args.baselineTotalValue,
-        initialQuotaValue: args.initialQuotaValue,
+      await auditor.patch("portfolioInvestors", existing, {
+        ...args,
         updatedAt: now,
       });
       return existing._id;
     }
 
-    return ctx.db.insert("portfolioSettings", {
-      key: SETTINGS_KEY,
-      baselineTotalValue: args.baselineTotalValue,
-      initialQuotaValue: args.initialQuotaValue,
+    return auditor.insert("portfolioInvestors", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const upsertSettings = mutation({
+  args: { portfolioId: v.string(), ...settingsValidator, actor: actorValidator },
+  handler: async (ctx, { actor, ...args }) => {
+    const existing = await getSettingsDoc(ctx, args.portfolioId);
+
+    const now = Date.now();
+    const auditor = createAuditor(ctx, {
+      portfolioId: args.portfolioId,
+      mutation: "portfolioData:upsertSettings",
+      actor,
+    });
+
+    if (existing) {
+      await auditor.patch("portfolioSettings", existing, {
+        ...args,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return auditor.insert("portfolioSettings", {
+      ...args,
       createdAt: now,
       updatedAt: now,
     });
@@ -0,0 +1,113 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getLegacyPriceProxy } from "./portfolioData";
+
+export const DEFAULT_PORTFOLIO_ID = "default";
+
+const SCOPED_TABLES = [
+  "portfolioTokens",
+  "portfolioTransactions",
+  "portfolioInvestors",
+  "portfolioSettings",
+  "portfolioDaily",
+] as const;
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const portfolios = await ctx.db.query("portfolios").order("asc").collect();
+    return portfolios.map((portfolio) => ({
+      id: portfolio.portfolioId,
+      slug: portfolio.slug,
+      name: portfolio.name,
+    }));
+  },
+});
+
+export const getBySlug = query({
+  args: { slug: v.string() },
+  handler: async (ctx, args) => {
+    const portfolio = await ctx.db
+      .query("portfolios")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+
+    return portfolio
+      ? { id: portfolio.portfolioId, slug: portfolio.slug, name: portfolio.name }
+      : null;
+  },
+});
+
+export const upsert = mutation({
+  args: {
+    portfolioId: v.string(),
+    slug: v.string(),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const slugOwner = await ctx.db
+      .query("portfolios")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .unique();
+    if (slugOwner && slugOwner.portfolioId !== args.portfolioId) {
+      throw new Error(`Slug ${args.slug} is already used by portfolio ${slugOwner.portfolioId}`);
+    }
+
+    const existing = await ctx.db
+      .query("portfolios")
+      .withIndex("by_portfolio_id", (q) => q.eq("portfolioId", args.portfolioId))
+      .unique();
+
+    const now = Date.now();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        ...args,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return ctx.db.insert("portfolios", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * One-off upgrade for deployments created before multi-portfolio support:
+ * assigns every unscoped row to the default portfolio, and turns legacy
+ * ETH_AMOUNT/BTC_AMOUNT tokens into price proxies.
+ */
+export const migrateLegacyData = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const counts: Record<string, number> = {};
+
+    for (const table of SCOPED_TABLES) {
+      const docs = await ctx.db.query(table).collect();
+      const legacy = docs.filter((doc) => doc.portfolioId === undefined);
+      for (const doc of legacy) {
+        await ctx.db.patch(doc._id, {
+          portfolioId: DEFAULT_PORTFOLIO_ID,
+          ...(table === "portfolioSettings" ? { key: undefined } : {}),
+        });
+      }
+      counts[table] = legacy.length;
+    }
+
+    const tokens = await ctx.db.query("portfolioTokens").collect();
+    const legacyTokens = tokens.filter((token) => token.specialCalculation !== undefined);
+    for (const token of legacyTokens) {
+      await ctx.db.patch(token._id, {
+        priceProxy: token.priceProxy ?? getLegacyPriceProxy(token.specialCalculation),
+        specialCalculation: undefined,
+      });
+    }
+    counts.priceProxies = legacyTokens.length;
+
+    return counts;
+  },
+});
@@ -1,64 +1,197 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Optional only so rows written before multi-portfolio support still validate;
+// `portfolios:migrateLegacyData` assigns them to the default portfolio.
+const portfolioId = v.optional(v.string());
+
+const auditedTable = v.union(
+  v.literal("portfolioTokens"),
+  v.literal("portfolioTransactions"),
+  v.literal("portfolioInvestors"),
+  v.literal("portfolioSettings"),
+  v.literal("portfolioDaily"),
+  v.literal("portfolioCategories")
+);
+
 export default defineSchema({
+  // Independent funds tracked in one deployment, each served under its own route slug
+  portfolios: defineTable({
+    portfolioId: v.string(),
+    slug: v.string(),
+    name: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_portfolio_id", ["portfolioId"])
+    .index("by_slug", ["slug"]),
+
+  // Buckets tokens are grouped into; tokens reference them by categoryId
+  portfolioCategories: defineTable({
+    portfolioId: v.string(),
+    categoryId: v.string(),
+    name: v.string(),
+    color: v.string(),
+    sortOrder: v.number(),
+    // Target share of portfolio value and allowed drift, as decimals
+    targetWeight: v.optional(v.number()),
+    tolerance: v.optional(v.number()),
+    // Symbol of the single line its tokens collapse into ("" turns a default off)
+    aggregateSymbol: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_category_id", ["portfolioId", "categoryId"]),
+
   portfolioTokens: defineTable({
+    portfolioId,
     tokenId: v.string(),
     symbol: v.string(),
     name: v.string(),
-    category: v.union(
-      v.literal("Btc"),
-      v.literal("Eth"),
-      v.literal("AI"),
-      v.literal("Gaming/Meme"),
-      v.literal("Defi"),
-      v.literal("Micro"),
-      v.literal("Privacy")
-    ),
+    category: v.string(),
+    tags: v.optional(v.array(v.string())),
+    targetWeight: v.optional(v.number()),
+    tolerance: v.optional(v.number()),
     cmcSymbol: v.optional(v.string()),
     preferredAPI: v.union(v.literal("coingecko"), v.literal("coinmarketcap")),
+    priceProxy: v.optional(
+      v.object({
+        priceId: v.string(),
+        ratios: v.optional(v.array(v.object({ date: v.string(), ratio: v.number() }))),
+      })
+    ),
+    // Legacy, superseded by priceProxy; cleared by portfolios:migrateLegacyData
     specialCalculation: v.optional(
       v.union(v.literal("ETH_AMOUNT"), v.literal("BTC_AMOUNT"), v.literal("REGULAR"))
     ),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_symbol", ["symbol"])
-    .index("by_token_id", ["tokenId"]),
+    .index("by_symbol", ["portfolioId", "symbol"])
+    .index("by_token_id", ["portfolioId", "tokenId"]),
 
   portfolioTransactions: defineTable({
+    portfolioId,
     transactionId: v.string(),
     date: v.string(),
+    timestamp: v.optional(v.string()),
+    sequence: v.optional(v.number()),
     type: v.union(
       v.literal("DEPOSIT"),
       v.literal("WITHDRAW"),
       v.literal("BUY"),
-      v.literal("SELL")
+      v.literal("SELL"),
+      v.literal("FEE"),
+      v.literal("INCOME"),
+      v.literal("REWARD"),
+      v.literal("AIRDROP"),
+      v.literal("SWAP")
     ),
     tokenSymbol: v.optional(v.string()),
+    fromSymbol: v.optional(v.string()),
+    fromAmount: v.optional(v.number()),
+    toSymbol: v.optional(v.string()),
+    toAmount: v.optional(v.number()),
+    lotIds: v.optional(v.array(v.string())),
+    investorId: v.optional(v.string()),
     amount: v.number(),
     priceAtTransaction: v.optional(v.number()),
     quotaValueAtTransaction: v.optional(v.number()),
+    quotaValueSource: v.optional(
+      v.union(v.literal("manual"), v.literal("daily"), v.literal("historical"), v.literal("initial"))
+    ),
+    currency: v.optional(v.string()),
+    fxRateAtTransaction: v.optional(v.number()),
     usdValue: v.number(),
+    // Voided entries stay in the table but are excluded from every calculation
+    voidedAt: v.optional(v.number()),
+    voidReason: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_transaction_id", ["transactionId"])
-    .index("by_date", ["date"]),
+    .index("by_transaction_id", ["portfolioId", "transactionId"])
+    .index("by_date", ["portfolioId", "date", "timestamp", "sequence"]),
+
+  portfolioInvestors: defineTable({
+    portfolioId,
+    investorId: v.string(),
+    name: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_investor_id", ["portfolioId", "investorId"]),
 
   portfolioSettings: defineTable({
-    key: v.string(),
+    portfolioId,
+    key: v.optional(v.string()), // Legacy singleton key, replaced by portfolioId
     baselineTotalValue: v.number(),
     initialQuotaValue: v.number(),
+    managementFeeRate: v.optional(v.number()),
+    performanceFeeRate: v.optional(v.number()),
+    feeCrystallization: v.optional(
+      v.union(v.literal("MONTHLY"), v.literal("QUARTERLY"), v.literal("ANNUAL"))
+    ),
+    incomeCostBasis: v.optional(v.union(v.literal("ZERO"), v.literal("FAIR_VALUE"))),
+    lotMatchingMethod: v.optional(
+      v.union(
+        v.literal("AVERAGE"),
+        v.literal("FIFO"),
+        v.literal("LIFO"),
+        v.literal("HIFO"),
+        v.literal("SPECIFIC")
+      )
+    ),
+    reportingCurrency: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_key", ["key"]),
+  }).index("by_portfolio_id", ["portfolioId"]),
 
   portfolioDaily: defineTable({
+    portfolioId,
     date: v.string(),
     portfolioValue: v.number(),
     totalShares: v.number(),
     createdAt: v.number(),
     updatedAt: v.number(),
-  }).index("by_date", ["date"]),
+  }).index("by_date", ["portfolioId", "date"]),
+
+  // Daily USD FX rates: units of `currency` per 1 USD
+  fxRates: defineTable({
+    currency: v.string(),
+    date: v.string(),
+    rate: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_currency_date", ["currency", "date"]),
+
+  // Daily USD closes of benchmark assets and held tokens (CoinGecko IDs), shared by all portfolios
+  benchmarkPrices: defineTable({
+    priceId: v.string(),
+    date: v.string(),
+    price: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_price_date", ["priceId", "date"]),
+
+  // Append-only audit trail: one batch per mutation call, one entry per document written
+  auditBatches: defineTable({
+    portfolioId: v.string(),
+    batchId: v.string(),
+    mutation: v.string(),
+    actor: v.string(),
+    timestamp: v.number(),
+    // Set on undo/restore batches: the batches whose changes they roll back
+    revertsBatchIds: v.optional(v.array(v.string())),
+  })
+    .index("by_portfolio_time", ["portfolioId", "timestamp"])
+    .index("by_batch_id", ["batchId"]),
+
+  auditEntries: defineTable({
+    portfolioId: v.string(),
+    batchId: v.string(),
+    table: auditedTable,
+    documentKey: v.string(),
+    operation: v.union(v.literal("insert"), v.literal("update"), v.literal("delete")),
+    // Document fields without system fields; absent before an insert / after a delete
+    before: v.optional(v.any()),
+    after: v.optional(v.any()),
+  }).index("by_batch", ["batchId"]),
 });
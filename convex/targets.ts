@@ -0,0 +1,78 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { createAuditor } from "./audit";
+import { ensureStoredCategories } from "./categories";
+import { CASH_CATEGORY } from "../src/lib/constants/portfolio-data";
+
+function assertFraction(value: number | undefined, label: string) {
+  if (value !== undefined && !(value >= 0 && value <= 1)) {
+    throw new Error(`${label} must be a decimal between 0 and 1, got ${value}`);
+  }
+}
+
+/**
+ * Set the target weight (and optional tolerance band) of a category or token;
+ * omitting `targetWeight` clears the target. Category targets plus the targets of
+ * tokens outside targeted categories may not exceed 100%.
+ */
+export const set = mutation({
+  args: {
+    portfolioId: v.string(),
+    scope: v.union(v.literal("category"), v.literal("token")),
+    id: v.string(),
+    targetWeight: v.optional(v.number()),
+    tolerance: v.optional(v.number()),
+    actor: v.optional(v.string()),
+  },
+  handler: async (ctx, { portfolioId, scope, id, targetWeight, tolerance, actor }) => {
+    assertFraction(targetWeight, "Target weight");
+    assertFraction(tolerance, "Tolerance");
+
+    const auditor = createAuditor(ctx, { portfolioId, mutation: "targets:set", actor });
+    const fields = {
+      targetWeight,
+      tolerance: targetWeight === undefined ? undefined : tolerance,
+      updatedAt: Date.now(),
+    };
+
+    if (scope === "category") {
+      if (id === CASH_CATEGORY.id) {
+        throw new Error("Cash takes whatever the other targets leave; it has no target of its own");
+      }
+      const categories = await ensureStoredCategories(ctx, auditor, portfolioId);
+      const existing = categories.find((category) => category.categoryId === id);
+      if (!existing) {
+        throw new Error(`Category ${id} not found`);
+      }
+      await auditor.patch("portfolioCategories", existing, fields);
+    } else {
+      const existing = await ctx.db
+        .query("portfolioTokens")
+        .withIndex("by_symbol", (q) => q.eq("portfolioId", portfolioId).eq("symbol", id))
+        .unique();
+      if (!existing) {
+        throw new Error(`Token ${id} not found`);
+      }
+      await auditor.patch("portfolioTokens", existing, fields);
+    }
+
+    const [categories, tokens] = await Promise.all([
+      ensureStoredCategories(ctx, auditor, portfolioId),
+      ctx.db
+        .query("portfolioTokens")
+        .withIndex("by_symbol", (q) => q.eq("portfolioId", portfolioId))
+        .collect(),
+    ]);
+    const targetedCategories = new Set(
+      categories.filter((category) => category.targetWeight !== undefined).map((category) => category.categoryId)
+    );
+    const total =
+      categories.reduce((sum, category) => sum + (category.targetWeight ?? 0), 0) +
+      tokens
+        .filter((token) => !targetedCategories.has(token.category))
+        .reduce((sum, token) => sum + (token.targetWeight ?? 0), 0);
+    if (total > 1 + 1e-9) {
+      throw new Error(`Targets add up to ${(total * 100).toFixed(1)}%, more than 100%`);
+    }
+  },
+});
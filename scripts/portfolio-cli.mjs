@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import fs from 'node:fs'
+import os from 'node:os'
 import path from 'node:path'
 import process from 'node:process'
 import { ConvexHttpClient } from 'convex/browser'
@@ -40,6 +41,12 @@ function parseArgs(argv) {
   return args
 }
 
+// Pre-proxy token files flag ETH/BTC-denominated amounts with specialCalculation
+const LEGACY_PRICE_PROXIES = {
+  ETH_AMOUNT: { priceId: 'ethereum' },
+  BTC_AMOUNT: { priceId: 'bitcoin' },
+}
+
 function normalizeToken(input) {
   return {
     tokenId: input.tokenId || input.id,
@@ -48,29 +55,72 @@ function normalizeToken(input) {
     category: input.category,
     cmcSymbol: input.cmcSymbol,
     preferredAPI: input.preferredAPI,
-    specialCalculation: input.specialCalculation || 'REGULAR',
+    tags: input.tags,
+    targetWeight: input.targetWeight,
+    tolerance: input.tolerance,
+    priceProxy: input.priceProxy || LEGACY_PRICE_PROXIES[input.specialCalculation],
   }
 }
 
 function normalizeTransaction(input) {
   return {
     transactionId: input.transactionId || input.id,
-    date: input.date,
+    date: input.date || (typeof input.timestamp === 'string' ? input.timestamp.slice(0, 10) : undefined),
+    timestamp: input.timestamp,
+    sequence: input.sequence,
     type: input.type,
     tokenSymbol: input.tokenSymbol,
-    amount: input.amount,
+    fromSymbol: input.fromSymbol,
+    fromAmount: input.fromAmount,
+    toSymbol: input.toSymbol,
+    toAmount: input.toAmount,
+    lotIds: input.lotIds,
+    investorId: input.investorId,
+    amount: input.type === 'SWAP' && input.amount === undefined ? input.toAmount : input.amount,
     priceAtTransaction: input.priceAtTransaction,
     quotaValueAtTransaction: input.quotaValueAtTransaction,
+    quotaValueSource: input.quotaValueSource,
+    currency: input.currency ? String(input.currency).toUpperCase() : undefined,
+    fxRateAtTransaction: input.fxRateAtTransaction,
     usdValue: input.usdValue,
   }
 }
 
+function normalizeInvestor(input) {
+  return {
+    investorId: input.investorId || input.id,
+    name: input.name,
+  }
+}
+
+function normalizeSettings(input) {
+  const settings = {
+    baselineTotalValue: Number(input.baselineTotalValue),
+    initialQuotaValue: Number(input.initialQuotaValue),
+  }
+  if (input.managementFeeRate !== undefined) settings.managementFeeRate = Number(input.managementFeeRate)
+  if (input.performanceFeeRate !== undefined) settings.performanceFeeRate = Number(input.performanceFeeRate)
+  if (input.feeCrystallization !== undefined) settings.feeCrystallization = input.feeCrystallization
+  if (input.incomeCostBasis !== undefined) settings.incomeCostBasis = input.incomeCostBasis
+  if (input.lotMatchingMethod !== undefined) settings.lotMatchingMethod = input.lotMatchingMethod
+  if (input.reportingCurrency !== undefined) settings.reportingCurrency = String(input.reportingCurrency).toUpperCase()
+  return settings
+}
+
 function assertDefined(value, label) {
   if (value === undefined || value === null || value === '') {
     throw new Error(`Missing required field: ${label}`)
   }
 }
 
+function assertSwapFields(tx) {
+  if (tx.type !== 'SWAP') return
+  assertDefined(tx.fromSymbol, 'transaction.fromSymbol')
+  assertDefined(tx.fromAmount, 'transaction.fromAmount')
+  assertDefined(tx.toSymbol, 'transaction.toSymbol')
+  assertDefined(tx.toAmount, 'transaction.toAmount')
+}
+
 function readJsonFile(filepath) {
   const absolute = path.resolve(process.cwd(), filepath)
   const content = fs.readFileSync(absolute, 'utf8')
@@ -88,25 +138,152 @@ function getClient() {
   return new ConvexHttpClient(convexUrl)
 }
 
+function getAppUrl(args) {
+  loadEnvFile(path.resolve(process.cwd(), '.env.local'))
+  return args['app-url'] || process.env.PORTFOLIO_APP_URL || 'http://localhost:3000'
+}
+
+// Every command is scoped to one portfolio; the main fund is "default"
+function getPortfolioId(args) {
+  loadEnvFile(path.resolve(process.cwd(), '.env.local'))
+  return String(args.portfolio || process.env.PORTFOLIO_ID || 'default')
+}
+
+// Recorded in the audit log with every change made through the CLI
+function getActor(args) {
+  return String(args.actor || process.env.PORTFOLIO_ACTOR || `cli:${os.userInfo().username}`)
+}
+
+async function resolveQuotaValue(client, portfolioId, tx, appUrl) {
+  const { date } = tx
+  const fromDaily = await client.query(api.portfolioData.resolveQuotaValue, { portfolioId, date })
+  if (fromDaily) return fromDaily
+
+  // The app prices the fund after earlier same-day transactions, so pass the ledger position
+  const params = new URLSearchParams({ date, portfolio: portfolioId, transactionId: tx.transactionId })
+  if (tx.timestamp) params.set('timestamp', tx.timestamp)
+  if (tx.sequence !== undefined && tx.sequence !== null) params.set('sequence', String(tx.sequence))
+  const response = await fetch(`${appUrl}/api/quota?${params}`)
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(
+      `Could not derive quota value for ${date} from ${appUrl}: ${data.message || data.error || response.status}. ` +
+        'Start the app (npm run dev), pass --app-url, or set quotaValueAtTransaction.'
+    )
+  }
+
+  return { quotaValue: data.quotaValue, source: data.source }
+}
+
+function isForeignCurrencyFlow(tx) {
+  return (tx.type === 'DEPOSIT' || tx.type === 'WITHDRAW') && Boolean(tx.currency) && tx.currency !== 'USD'
+}
+
+// Non-USD deposits/withdrawals: `amount` is in `currency`, usdValue uses the rate on the transaction date
+async function applyFxRate(client, tx) {
+  if (!isForeignCurrencyFlow(tx)) return
+
+  if (tx.fxRateAtTransaction === undefined || tx.fxRateAtTransaction === null) {
+    const stored = await client.query(api.fxRates.getRate, { currency: tx.currency, date: tx.date })
+    if (!stored) {
+      throw new Error(
+        `No USD/${tx.currency} rate on or before ${tx.date} for ${tx.transactionId}. ` +
+          `Run: npm run portfolio:fx -- --currency ${tx.currency} --from ${tx.date}`
+      )
+    }
+    tx.fxRateAtTransaction = stored.rate
+  }
+
+  tx.usdValue = tx.amount / tx.fxRateAtTransaction
+}
+
+function printLedgerIssues(issues) {
+  for (const issue of issues) {
+    const label = issue.severity === 'error' ? 'ERROR' : 'WARN '
+    console.log(`${label} ${issue.transactionId} [${issue.code}] ${issue.message}`)
+  }
+}
+
+function printRecordDiff(label, diff, removedNote) {
+  console.log(`${label}: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`)
+  for (const key of diff.added) console.log(`  + ${key}`)
+  for (const change of diff.changed) console.log(`  ~ ${change.key} (${change.fields.join(', ')})`)
+  for (const key of diff.removed) console.log(`  - ${key}${removedNote}`)
+}
+
+function printSnapshotDiff(diff, prune) {
+  const removedNote = prune ? '' : ' (kept, pass --prune to delete)'
+  printRecordDiff('Tokens', diff.tokens, removedNote)
+  printRecordDiff('Transactions', diff.transactions, removedNote)
+  printRecordDiff('Investors', diff.investors, removedNote)
+  console.log(diff.settings.length > 0 ? `Settings changed: ${diff.settings.join(', ')}` : 'Settings unchanged')
+  console.log(
+    diff.invalidateFromDate
+      ? `Daily snapshots invalidated from ${diff.invalidateFromDate}`
+      : 'Daily snapshots unaffected'
+  )
+}
+
 function printUsage() {
   console.log('Portfolio CLI')
   console.log('')
+  console.log('Global options: --portfolio <id> (default: PORTFOLIO_ID or "default"), --actor <name> (audit log)')
+  console.log('')
   console.log('Commands:')
-  console.log('  bootstrap [--file .portfolio-data.local.json]')
-  console.log('  tx --file ./transaction.json')
+  console.log('  bootstrap [--file .portfolio-data.local.json] [--dry-run | --merge [--prune]] [--force]')
+  console.log('  tx --file ./transaction.json [--app-url http://localhost:3000] [--force]')
   console.log('  token --file ./token.json')
+  console.log('  investor --file ./investor.json')
+  console.log('  categories')
+  console.log('  category --id RWA [--name "Real-world assets"] [--color "#0EA5E9"] [--sort 80] [--aggregate SYMBOL | --no-aggregate] [--delete]')
+  console.log('  targets')
+  console.log('  target (--category Btc | --token BTC) (--weight 0.5 [--tolerance 0.05] | --clear)')
   console.log('  settings --file ./settings.json')
+  console.log('  delete --id tx-123 [--force]')
+  console.log('  void --id tx-123 [--reason "Duplicate import"] [--force]')
+  console.log('  validate')
+  console.log('  risk [--days 365] [--risk-free 0.04] [--confidence 0.95]')
+  console.log('  fx --currency EUR [--from 2025-01-01] [--to 2025-07-02] [--app-url http://localhost:3000]')
+  console.log('  gains [--year 2025] [--out ./capital-gains.csv] [--app-url http://localhost:3000]')
+  console.log('  portfolio --id paper --slug <random-slug> [--name "Paper sandbox"]')
+  console.log('  migrate')
+  console.log('  history [--limit 20]')
+  console.log('  undo')
+  console.log('  restore --to 2025-07-02T12:00:00Z')
 }
 
 async function run() {
   const [command, ...rest] = process.argv.slice(2)
   const args = parseArgs(rest)
+  const portfolioId = getPortfolioId(args)
+  const actor = getActor(args)
 
   if (!command || command === 'help' || command === '--help') {
     printUsage()
     return
   }
 
+  if (command === 'gains') {
+    const appUrl = getAppUrl(args)
+    const params = new URLSearchParams({ format: 'csv', portfolio: portfolioId })
+    if (args.year) params.set('year', String(args.year))
+
+    const response = await fetch(`${appUrl}/api/reports/capital-gains?${params}`)
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(`Capital gains report failed: ${data.message || data.error || response.status}`)
+    }
+
+    const csv = await response.text()
+    if (args.out) {
+      fs.writeFileSync(path.resolve(process.cwd(), args.out), csv)
+      console.log(`Capital gains report written to ${args.out}`)
+    } else {
+      process.stdout.write(csv)
+    }
+    return
+  }
+
   const client = getClient()
 
   if (command === 'bootstrap') {
@@ -115,6 +292,7 @@ async function run() {
 
     const tokens = (payload.tokens || []).map(normalizeToken)
     const transactions = (payload.transactions || []).map(normalizeTransaction)
+    const investors = (payload.investors || []).map(normalizeInvestor)
     const settings = payload.settings || {
       baselineTotalValue: payload.baselineTotalValue,
       initialQuotaValue: payload.initialQuotaValue,
@@ -136,19 +314,132 @@ async function run() {
       assertDefined(tx.date, 'transaction.date')
       assertDefined(tx.type, 'transaction.type')
       assertDefined(tx.amount, 'transaction.amount')
+      await applyFxRate(client, tx)
       assertDefined(tx.usdValue, 'transaction.usdValue')
+      assertSwapFields(tx)
+    }
+
+    for (const investor of investors) {
+      assertDefined(investor.investorId, 'investor.investorId')
+      assertDefined(investor.name, 'investor.name')
+    }
+
+    const snapshot = { tokens, transactions, investors, settings: normalizeSettings(settings) }
+    const prune = Boolean(args.prune)
+
+    if (args['dry-run']) {
+      const diff = await client.query(api.portfolioData.diffSnapshot, { portfolioId, ...snapshot, prune })
+      printSnapshotDiff(diff, prune)
+      console.log('Dry run: nothing was written.')
+      return
+    }
+
+    if (args.merge) {
+      const diff = await client.mutation(api.portfolioData.mergeSnapshot, {
+        portfolioId,
+        actor,
+        ...snapshot,
+        prune,
+        validationMode: args.force ? 'warn' : 'reject',
+      })
+      printSnapshotDiff(diff, prune)
+      console.log('Merge completed.')
+      printLedgerIssues(await client.query(api.portfolioData.validate, { portfolioId }))
+      return
     }
 
     const result = await client.mutation(api.portfolioData.replaceSnapshot, {
-      tokens,
-      transactions,
-      settings: {
-        baselineTotalValue: Number(settings.baselineTotalValue),
-        initialQuotaValue: Number(settings.initialQuotaValue),
-      },
+      portfolioId,
+      actor,
+      ...snapshot,
+      validationMode: args.force ? 'warn' : 'reject',
+    })
+
+    console.log(
+      `Bootstrap completed. Tokens: ${result.tokenCount}, transactions: ${result.transactionCount}, investors: ${result.investorCount}`
+    )
+    printLedgerIssues(await client.query(api.portfolioData.validate, { portfolioId }))
+    return
+  }
+
+  if (command === 'fx') {
+    const snapshot = await client.query(api.portfolioData.getSnapshot, { portfolioId })
+    const currency = String(args.currency || snapshot.settings?.reportingCurrency || '').toUpperCase()
+    if (!currency || currency === 'USD') {
+      throw new Error('Missing --currency for fx command (or set reportingCurrency in settings).')
+    }
+
+    // Default range: from the first transaction (or latest stored rate) to today
+    const today = new Date().toISOString().slice(0, 10)
+    let from = args.from
+    if (!from) {
+      const stored = await client.query(api.fxRates.list, { currency })
+      if (stored.length > 0) {
+        from = stored[stored.length - 1].date
+      } else {
+        from = snapshot.transactions.reduce((min, tx) => (tx.date < min ? tx.date : min), today)
+      }
+    }
+    const to = args.to || today
+
+    const appUrl = getAppUrl(args)
+    const params = new URLSearchParams({ currency, start: from, end: to })
+    const response = await fetch(`${appUrl}/api/fx?${params}`)
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`FX rates fetch failed: ${data.message || data.error || response.status}`)
+    }
+
+    const result = await client.mutation(api.fxRates.upsertMany, { currency, rates: data.rates })
+    console.log(`FX rates synced: ${result.rateCount} USD/${currency} rates from ${from} to ${to}`)
+    return
+  }
+
+  if (command === 'validate') {
+    const issues = await client.query(api.portfolioData.validate, { portfolioId })
+    if (issues.length === 0) {
+      console.log('Ledger OK: no issues found.')
+      return
+    }
+
+    printLedgerIssues(issues)
+    const errorCount = issues.filter((issue) => issue.severity === 'error').length
+    console.log(`${errorCount} error(s), ${issues.length - errorCount} warning(s)`)
+    if (errorCount > 0) {
+      process.exit(1)
+    }
+    return
+  }
+
+  if (command === 'risk') {
+    const stats = await client.query(api.portfolioDaily.riskStatistics, {
+      portfolioId,
+      lookbackDays: args.days !== undefined ? Number(args.days) : undefined,
+      riskFreeRate: args['risk-free'] !== undefined ? Number(args['risk-free']) : undefined,
+      confidence: args.confidence !== undefined ? Number(args.confidence) : undefined,
     })
+    if (!stats) {
+      console.log('Not enough daily history: backfill portfolioDaily from the dashboard first.')
+      return
+    }
 
-    console.log(`Bootstrap completed. Tokens: ${result.tokenCount}, transactions: ${result.transactionCount}`)
+    const percent = (value) => `${(value * 100).toFixed(2)}%`
+    const ratio = (value) => (value === null ? '-' : value.toFixed(2))
+    const drawdown = stats.maxDrawdown
+    console.log(`Quota series ${stats.startDate} to ${stats.endDate} (${stats.observations} daily returns, USD)`)
+    console.log(`Return:            ${percent(stats.totalReturn)} (${percent(stats.annualizedReturn)} annualized)`)
+    console.log(`Volatility:        ${percent(stats.volatility)} annualized`)
+    console.log(`Sharpe / Sortino:  ${ratio(stats.sharpeRatio)} / ${ratio(stats.sortinoRatio)} (risk-free ${percent(stats.riskFreeRate)})`)
+    console.log(
+      drawdown
+        ? `Max drawdown:      -${percent(drawdown.depth)} peak ${drawdown.peakDate}, trough ${drawdown.troughDate}, ` +
+            `${drawdown.recoveryDate ? `recovered ${drawdown.recoveryDate}` : 'not recovered'} (${drawdown.durationDays} days)`
+        : 'Max drawdown:      none'
+    )
+    console.log(`Longest drawdown:  ${stats.longestDrawdownDays} days; current -${percent(stats.currentDrawdown)}`)
+    console.log(
+      `VaR / CVaR ${Math.round(stats.confidence * 100)}%:  ${percent(stats.valueAtRisk)} / ${percent(stats.conditionalValueAtRisk)} (1 day)`
+    )
     return
   }
 
@@ -163,10 +454,92 @@ async function run() {
     assertDefined(tx.date, 'transaction.date')
     assertDefined(tx.type, 'transaction.type')
     assertDefined(tx.amount, 'transaction.amount')
+    await applyFxRate(client, tx)
+    if (tx.fxRateAtTransaction !== undefined) {
+      console.log(`Converted ${tx.amount} ${tx.currency} at ${tx.fxRateAtTransaction} = ${tx.usdValue.toFixed(2)} USD`)
+    }
     assertDefined(tx.usdValue, 'transaction.usdValue')
+    assertSwapFields(tx)
+
+    const isCapitalFlow = tx.type === 'DEPOSIT' || tx.type === 'WITHDRAW'
+    if (isCapitalFlow && (tx.quotaValueAtTransaction === undefined || tx.quotaValueAtTransaction === null)) {
+      const resolved = await resolveQuotaValue(client, portfolioId, tx, getAppUrl(args))
+      tx.quotaValueAtTransaction = resolved.quotaValue
+      tx.quotaValueSource = resolved.source
+      console.log(`Quota value derived: ${resolved.quotaValue} (${resolved.source})`)
+    }
 
-    await client.mutation(api.portfolioData.addTransaction, tx)
+    const result = await client.mutation(api.portfolioData.addTransaction, {
+      portfolioId,
+      actor,
+      ...tx,
+      validationMode: args.force ? 'warn' : 'reject',
+    })
     console.log(`Transaction upserted: ${tx.transactionId}`)
+    printLedgerIssues(result.issues)
+    return
+  }
+
+  if (command === 'delete' || command === 'void') {
+    const transactionId = args.id
+    if (!transactionId) {
+      throw new Error(`Missing --id for ${command} command.`)
+    }
+
+    const validationMode = args.force ? 'warn' : 'reject'
+    if (command === 'delete') {
+      const result = await client.mutation(api.portfolioData.deleteTransaction, {
+        portfolioId,
+        transactionId,
+        validationMode,
+        actor,
+      })
+      console.log(`Transaction deleted: ${transactionId}`)
+      printLedgerIssues(result.issues)
+    } else {
+      const reason = args.reason ? String(args.reason) : undefined
+      const result = await client.mutation(api.portfolioData.voidTransaction, {
+        portfolioId,
+        transactionId,
+        reason,
+        validationMode,
+        actor,
+      })
+      console.log(`Transaction voided: ${transactionId}`)
+      printLedgerIssues(result.issues)
+    }
+    return
+  }
+
+  if (command === 'history') {
+    const limit = args.limit ? Number(args.limit) : 20
+    const batches = await client.query(api.audit.listBatches, { portfolioId, limit })
+    if (batches.length === 0) {
+      console.log('No changes recorded.')
+      return
+    }
+
+    for (const batch of batches) {
+      const reverts = batch.revertsBatchIds ? ` (rolls back ${batch.revertsBatchIds.length})` : ''
+      console.log(`${new Date(batch.timestamp).toISOString()}  ${batch.mutation}${reverts}  by ${batch.actor}`)
+    }
+    return
+  }
+
+  if (command === 'undo') {
+    const undone = await client.mutation(api.audit.undoLast, { portfolioId, actor })
+    console.log(`Undone: ${undone.mutation} from ${new Date(undone.timestamp).toISOString()}`)
+    return
+  }
+
+  if (command === 'restore') {
+    const timestamp = args.to ? Date.parse(String(args.to)) : NaN
+    if (Number.isNaN(timestamp)) {
+      throw new Error('Missing or invalid --to for restore command (ISO date or timestamp).')
+    }
+
+    const result = await client.mutation(api.audit.restoreToPoint, { portfolioId, timestamp, actor })
+    console.log(`Restored to ${new Date(timestamp).toISOString()}. Changes rolled back: ${result.revertedBatchCount}`)
     return
   }
 
@@ -183,11 +556,112 @@ async function run() {
     assertDefined(token.category, 'token.category')
     assertDefined(token.preferredAPI, 'token.preferredAPI')
 
-    await client.mutation(api.portfolioData.upsertToken, token)
+    await client.mutation(api.portfolioData.upsertToken, { portfolioId, actor, ...token })
     console.log(`Token upserted: ${token.symbol}`)
     return
   }
 
+  if (command === 'categories') {
+    const categories = await client.query(api.categories.list, { portfolioId })
+    for (const category of categories) {
+      const aggregate = category.aggregateSymbol ? `  (aggregated as ${category.aggregateSymbol})` : ''
+      console.log(`${String(category.sortOrder).padStart(4)}  ${category.id.padEnd(14)} ${category.color}  ${category.name}${aggregate}`)
+    }
+    return
+  }
+
+  if (command === 'category') {
+    if (!args.id) {
+      throw new Error('Missing --id for category command.')
+    }
+    const categoryId = String(args.id)
+
+    if (args.delete) {
+      await client.mutation(api.categories.remove, { portfolioId, categoryId, actor })
+      console.log(`Category deleted: ${categoryId}`)
+      return
+    }
+
+    const sortOrder = args.sort !== undefined ? Number(args.sort) : undefined
+    if (sortOrder !== undefined && !Number.isFinite(sortOrder)) {
+      throw new Error('Invalid --sort for category command (number expected).')
+    }
+    if (args.aggregate === true) {
+      throw new Error('Missing symbol for --aggregate (e.g. --aggregate BTC).')
+    }
+    const aggregateSymbol = args['no-aggregate'] ? '' : args.aggregate ? String(args.aggregate) : undefined
+
+    await client.mutation(api.categories.upsert, {
+      portfolioId,
+      categoryId,
+      name: args.name ? String(args.name) : undefined,
+      color: args.color ? String(args.color) : undefined,
+      sortOrder,
+      aggregateSymbol,
+      actor,
+    })
+    console.log(`Category upserted: ${categoryId}`)
+    return
+  }
+
+  if (command === 'targets') {
+    const [categories, snapshot] = await Promise.all([
+      client.query(api.categories.list, { portfolioId }),
+      client.query(api.portfolioData.getSnapshot, { portfolioId }),
+    ])
+    const rows = [
+      ...categories.map((category) => ({ label: `category ${category.id}`, ...category })),
+      ...snapshot.tokens.map((token) => ({ label: `token ${token.symbol}`, ...token })),
+    ].filter((row) => row.targetWeight !== undefined)
+
+    if (rows.length === 0) {
+      console.log('No targets set.')
+      return
+    }
+    for (const row of rows) {
+      const tolerance = row.tolerance !== undefined ? ` ±${(row.tolerance * 100).toFixed(1)} pts` : ''
+      console.log(`${row.label.padEnd(24)} ${(row.targetWeight * 100).toFixed(1)}%${tolerance}`)
+    }
+    return
+  }
+
+  if (command === 'target') {
+    const scope = args.category ? 'category' : args.token ? 'token' : null
+    if (!scope) {
+      throw new Error('Pass --category <id> or --token <symbol> to the target command.')
+    }
+    if (!args.clear && args.weight === undefined) {
+      throw new Error('Pass --weight (decimal, e.g. 0.5) or --clear to the target command.')
+    }
+
+    const id = String(args[scope])
+    await client.mutation(api.targets.set, {
+      portfolioId,
+      scope,
+      id,
+      targetWeight: args.clear ? undefined : Number(args.weight),
+      tolerance: !args.clear && args.tolerance !== undefined ? Number(args.tolerance) : undefined,
+      actor,
+    })
+    console.log(args.clear ? `Target cleared: ${scope} ${id}` : `Target set: ${scope} ${id} = ${args.weight}`)
+    return
+  }
+
+  if (command === 'investor') {
+    const filepath = args.file
+    if (!filepath) {
+      throw new Error('Missing --file for investor command.')
+    }
+
+    const investor = normalizeInvestor(readJsonFile(filepath))
+    assertDefined(investor.investorId, 'investor.investorId')
+    assertDefined(investor.name, 'investor.name')
+
+    await client.mutation(api.portfolioData.upsertInvestor, { portfolioId, actor, ...investor })
+    console.log(`Investor upserted: ${investor.investorId}`)
+    return
+  }
+
   if (command === 'settings') {
     const filepath = args.file
     if (!filepath) {
@@ -198,14 +672,33 @@ async function run() {
     assertDefined(settings.baselineTotalValue, 'baselineTotalValue')
     assertDefined(settings.initialQuotaValue, 'initialQuotaValue')
 
-    await client.mutation(api.portfolioData.upsertSettings, {
-      baselineTotalValue: Number(settings.baselineTotalValue),
-      initialQuotaValue: Number(settings.initialQuotaValue),
-    })
+    await client.mutation(api.portfolioData.upsertSettings, { portfolioId, actor, ...normalizeSettings(settings) })
     console.log('Settings upserted.')
     return
   }
 
+  if (command === 'portfolio') {
+    const id = args.id ? String(args.id) : portfolioId
+    if (!args.slug) {
+      throw new Error('Missing --slug for portfolio command.')
+    }
+
+    await client.mutation(api.portfolios.upsert, {
+      portfolioId: id,
+      slug: String(args.slug),
+      name: String(args.name || id),
+    })
+    console.log(`Portfolio upserted: ${id} at /portfolio/${args.slug}`)
+    return
+  }
+
+  if (command === 'migrate') {
+    const counts = await client.mutation(api.portfolios.migrateLegacyData, {})
+    const summary = Object.entries(counts).map(([table, count]) => `${table}: ${count}`).join(', ')
+    console.log(`Legacy data migrated. ${summary}`)
+    return
+  }
+
   throw new Error(`Unknown command: ${command}`)
 }
 
@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server'
+import { fetchFxRates } from '@/lib/api/fx'
+
+/**
+ * Historical FX rates endpoint
+ * GET /api/fx?currency=EUR&start=2025-01-01&end=2025-07-02
+ *
+ * Returns daily USD rates (units of `currency` per 1 USD) for the range. Used by the
+ * CLI to sync the Convex `fxRates` table that drives the reporting currency.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const currency = url.searchParams.get('currency')?.toUpperCase()
+    const start = url.searchParams.get('start')
+    const end = url.searchParams.get('end')
+
+    if (!currency || !/^[A-Z]{3}$/.test(currency)) {
+      return Response.json(
+        {
+          error: 'Invalid currency',
+          message: 'Please provide a 3-letter ISO currency code (e.g., EUR)',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+    if (!start || !end || !dateRegex.test(start) || !dateRegex.test(end)) {
+      return Response.json(
+        {
+          error: 'Invalid date range',
+          message: 'start and end must be in YYYY-MM-DD format',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const rates = await fetchFxRates(currency, start, end)
+
+    return Response.json(
+      {
+        currency,
+        rates,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      }
+    )
+  } catch (error) {
+    console.error('FX rates fetch error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return Response.json(
+      {
+        error: 'Failed to fetch FX rates',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    )
+  }
+}
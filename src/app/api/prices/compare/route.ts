@@ -1,10 +1,10 @@
 import { NextRequest } from 'next/server'
 import { comparePrices } from '@/lib/api/crypto'
-import { getPortfolioTokensServer } from '@/lib/server/portfolio-data'
+import { getPortfolioTokensServer, getPortfolioIdParam } from '@/lib/server/portfolio-data'
 
 export async function GET(request: NextRequest) {
   try {
-    const tokens = await getPortfolioTokensServer()
+    const tokens = await getPortfolioTokensServer(getPortfolioIdParam(new URL(request.url)))
     if (tokens.length === 0) {
       return Response.json(
         { error: 'Portfolio tokens are not initialized in Convex' },
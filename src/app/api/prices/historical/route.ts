@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server'
 import { fetchHistoricalPricesForTokens, RateLimitError } from '@/lib/api/crypto'
-import { getPortfolioTokensServer } from '@/lib/server/portfolio-data'
+import { getPortfolioTokensServer, getPortfolioIdParam } from '@/lib/server/portfolio-data'
 
 export async function GET(request: NextRequest) {
   try {
@@ -48,7 +48,7 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    const tokens = await getPortfolioTokensServer()
+    const tokens = await getPortfolioTokensServer(getPortfolioIdParam(url))
     if (tokens.length === 0) {
       return Response.json(
         { error: 'Portfolio tokens are not initialized in Convex' },
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { fetchDailyPriceHistory, RateLimitError } from '@/lib/api/crypto'
+
+/**
+ * Daily price history endpoint
+ * GET /api/prices/history?id=bitcoin&start=2025-01-01&end=2025-07-02
+ *
+ * Returns one USD close per day for the range. Used by the dashboard to fill the
+ * Convex `benchmarkPrices` table behind the history chart's benchmark overlays.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const tokenId = url.searchParams.get('id')
+    const start = url.searchParams.get('start')
+    const end = url.searchParams.get('end')
+
+    if (!tokenId) {
+      return Response.json(
+        {
+          error: 'Missing id parameter',
+          message: 'Please provide a token ID (e.g., id=bitcoin)',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+    if (!start || !end || !dateRegex.test(start) || !dateRegex.test(end) || start > end) {
+      return Response.json(
+        {
+          error: 'Invalid date range',
+          message: 'start and end must be in YYYY-MM-DD format, start on or before end',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const prices = await fetchDailyPriceHistory(tokenId, start, end)
+
+    return Response.json(
+      {
+        tokenId,
+        prices,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        }
+      }
+    )
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return Response.json(
+        {
+          error: 'Rate limit reached',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'Cache-Control': 'no-cache, no-store, must-revalidate'
+          }
+        }
+      )
+    }
+    console.error('Price history fetch error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return Response.json(
+      {
+        error: 'Failed to fetch price history',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server'
 import { fetchPricesWithPreferredAPI } from '@/lib/api/crypto'
-import { getPortfolioTokensServer } from '@/lib/server/portfolio-data'
+import { getPortfolioTokensServer, getPortfolioIdParam } from '@/lib/server/portfolio-data'
 
 export async function GET(request: NextRequest) {
   try {
@@ -13,7 +13,7 @@ export async function GET(request: NextRequest) {
       ? 'no-cache, no-store, must-revalidate'
       : 'public, s-maxage=60, stale-while-revalidate=300'
     
-    const tokens = await getPortfolioTokensServer()
+    const tokens = await getPortfolioTokensServer(getPortfolioIdParam(url))
     if (tokens.length === 0) {
       return Response.json(
         { error: 'Portfolio tokens are not initialized in Convex' },
@@ -0,0 +1,155 @@
+import { NextRequest } from 'next/server'
+import { fetchHistoricalPricesForTokens, RateLimitError } from '@/lib/api/crypto'
+import { getPortfolioSnapshotServer, getPortfolioIdParam } from '@/lib/server/portfolio-data'
+import {
+  getQuotaValuationDate,
+  getTransactionsBefore,
+  LedgerPosition,
+  processTransactions,
+  resolveQuotaValueFromPrices
+} from '@/lib/utils/fund-calculations'
+
+/**
+ * Quota value endpoint
+ * GET /api/quota?date=2025-07-02[&timestamp=2025-07-02T14:30:00Z][&sequence=2][&transactionId=...]
+ *
+ * Derives the fund's quota value on a date from the previous day's closing prices (the
+ * close portfolioDaily uses), applying only transactions before the new one in ledger
+ * order (earlier same-day entries included).
+ * Used by the CLI to price DEPOSIT/WITHDRAW transactions when no portfolioDaily entry
+ * is available.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const date = url.searchParams.get('date')
+
+    // Validate date parameter
+    if (!date) {
+      return Response.json(
+        {
+          error: 'Missing date parameter',
+          message: 'Please provide a date in YYYY-MM-DD format',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    // Validate date format (YYYY-MM-DD)
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+    if (!dateRegex.test(date)) {
+      return Response.json(
+        {
+          error: 'Invalid date format',
+          message: 'Date must be in YYYY-MM-DD format',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const timestamp = url.searchParams.get('timestamp') || undefined
+    if (timestamp && (Number.isNaN(Date.parse(timestamp)) || timestamp.slice(0, 10) !== date)) {
+      return Response.json(
+        {
+          error: 'Invalid timestamp',
+          message: 'Timestamp must be an ISO timestamp on the given date',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const sequenceParam = url.searchParams.get('sequence')
+    const sequence = sequenceParam ? Number(sequenceParam) : undefined
+    if (sequence !== undefined && !Number.isInteger(sequence)) {
+      return Response.json(
+        {
+          error: 'Invalid sequence',
+          message: 'Sequence must be an integer',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const position: LedgerPosition = {
+      date,
+      timestamp,
+      sequence,
+      id: url.searchParams.get('transactionId') || undefined
+    }
+
+    const snapshot = await getPortfolioSnapshotServer(getPortfolioIdParam(url))
+    const initialQuotaValue = snapshot.settings?.initialQuotaValue ?? 1
+
+    // Only price tokens actually held before the transaction
+    const priorState = processTransactions(
+      getTransactionsBefore(snapshot.transactions, position),
+      undefined,
+      initialQuotaValue
+    )
+    const heldTokens = snapshot.tokens.filter(token => (priorState.holdings.get(token.symbol) || 0) !== 0)
+
+    const priceData = heldTokens.length > 0
+      ? await fetchHistoricalPricesForTokens(heldTokens, getQuotaValuationDate(date))
+      : {}
+
+    const resolution = resolveQuotaValueFromPrices(
+      snapshot.transactions,
+      position,
+      priceData,
+      snapshot.tokens,
+      initialQuotaValue
+    )
+
+    return Response.json(
+      {
+        date,
+        ...resolution,
+        totalShares: priorState.totalShares,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          'Content-Type': 'application/json',
+        }
+      }
+    )
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return Response.json(
+        {
+          error: 'Rate limit reached',
+          message: error.message,
+          timestamp: new Date().toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            'Cache-Control': 'no-cache, no-store, must-revalidate'
+          }
+        }
+      )
+    }
+    console.error('Quota value resolution error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return Response.json(
+      {
+        error: 'Failed to resolve quota value',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server'
+import { getPortfolioSnapshotServer, getPortfolioIdParam } from '@/lib/server/portfolio-data'
+import { buildCapitalGainsReport, capitalGainsToCsv } from '@/lib/utils/capital-gains'
+
+/**
+ * Capital gains report endpoint
+ * GET /api/reports/capital-gains?year=2025&format=csv
+ *
+ * Lists every disposal with acquisition/disposal dates, proceeds, cost basis, gain and
+ * short/long-term classification, using the portfolio's lot-matching method.
+ * `format` is `csv` (Form 8949-style, default) or `json`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const yearParam = url.searchParams.get('year')
+    const format = url.searchParams.get('format') || 'csv'
+
+    if (yearParam !== null && !/^\d{4}$/.test(yearParam)) {
+      return Response.json(
+        {
+          error: 'Invalid year',
+          message: 'Year must be in YYYY format',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      return Response.json(
+        {
+          error: 'Invalid format',
+          message: 'Format must be csv or json',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const taxYear = yearParam !== null ? Number(yearParam) : undefined
+    const snapshot = await getPortfolioSnapshotServer(getPortfolioIdParam(url))
+    const rows = buildCapitalGainsReport(snapshot.transactions, {
+      taxYear,
+      incomeCostBasis: snapshot.settings?.incomeCostBasis,
+      lotMatchingMethod: snapshot.settings?.lotMatchingMethod,
+    })
+
+    if (format === 'json') {
+      return Response.json(
+        {
+          taxYear: taxYear ?? null,
+          lotMatchingMethod: snapshot.settings?.lotMatchingMethod ?? 'AVERAGE',
+          rows,
+          timestamp: new Date().toISOString()
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+          }
+        }
+      )
+    }
+
+    const filename = `capital-gains${taxYear !== undefined ? `-${taxYear}` : ''}.csv`
+    return new Response(capitalGainsToCsv(rows), {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      }
+    })
+  } catch (error) {
+    console.error('Capital gains report error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return Response.json(
+      {
+        error: 'Failed to build capital gains report',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server'
+import {
+  getFxRatesServer,
+  getPortfolioDailyServer,
+  getPortfolioIdParam,
+  getPortfolioSnapshotServer
+} from '@/lib/server/portfolio-data'
+import { BASE_CURRENCY, convertSettings, createFxConverter } from '@/lib/utils/fx'
+import { calculateMonthlyReturns, calculateTrailingReturns } from '@/lib/utils/returns'
+import { toQuotaSeries } from '@/lib/utils/risk-statistics'
+
+/**
+ * Quota returns report endpoint
+ * GET /api/reports/returns?date=2025-06-30
+ *
+ * Period returns (MTD, QTD, YTD, 1M, 3M, 6M, 1Y, since inception) and the year-by-month
+ * returns table from the stored portfolio history, up to `date` (latest entry by default),
+ * in the portfolio's reporting currency. Returns are decimals (0.05 = 5%).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url)
+    const date = url.searchParams.get('date')
+
+    if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return Response.json(
+        {
+          error: 'Invalid date format',
+          message: 'Date must be in YYYY-MM-DD format',
+          timestamp: new Date().toISOString()
+        },
+        { status: 400 }
+      )
+    }
+
+    const portfolioId = getPortfolioIdParam(url)
+    const [snapshot, entries] = await Promise.all([
+      getPortfolioSnapshotServer(portfolioId),
+      getPortfolioDailyServer(portfolioId, date ?? undefined),
+    ])
+
+    const requestedCurrency = snapshot.settings?.reportingCurrency ?? BASE_CURRENCY
+    const rates = requestedCurrency === BASE_CURRENCY ? [] : await getFxRatesServer(requestedCurrency)
+    const converter = createFxConverter(requestedCurrency, rates)
+    const initialQuotaValue = snapshot.settings
+      ? convertSettings(snapshot.settings, snapshot.transactions, converter).initialQuotaValue
+      : 1
+
+    const series = toQuotaSeries(
+      entries.map(entry => ({ ...entry, portfolioValue: converter.convert(entry.portfolioValue, entry.date) }))
+    )
+    const periods = calculateTrailingReturns(series, initialQuotaValue)
+
+    return Response.json(
+      {
+        currency: converter.currency,
+        asOf: periods[0]?.endDate ?? null,
+        initialQuotaValue,
+        periods,
+        monthly: calculateMonthlyReturns(series, initialQuotaValue),
+        timestamp: new Date().toISOString()
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        }
+      }
+    )
+  } catch (error) {
+    console.error('Returns report error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return Response.json(
+      {
+        error: 'Failed to build returns report',
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      {
+        status: 500,
+        headers: {
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      }
+    )
+  }
+}
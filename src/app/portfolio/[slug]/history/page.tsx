@@ -0,0 +1,25 @@
+import Link from 'next/link'
+import AuditHistory from '@/components/AuditHistory'
+import ErrorBoundary from '@/components/ui/ErrorBoundary'
+
+interface PortfolioHistoryPageProps {
+  params: {
+    slug: string
+  }
+}
+
+export default function PortfolioHistoryPage({ params }: PortfolioHistoryPageProps) {
+  return (
+    <div className="space-y-6">
+      <ErrorBoundary>
+        <AuditHistory />
+      </ErrorBoundary>
+
+      <div>
+        <Link href={`/portfolio/${params.slug}`} className="text-blue-600 hover:text-blue-700 underline">
+          Back to portfolio
+        </Link>
+      </div>
+    </div>
+  )
+}
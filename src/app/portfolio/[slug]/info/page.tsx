@@ -1,7 +1,4 @@
 import Link from 'next/link'
-import { notFound } from 'next/navigation'
-
-const SECRET_SLUG = process.env.PORTFOLIO_SECRET_SLUG || 'x7k9m2p-abc123-def456'
 
 interface PortfolioInfoPageProps {
   params: {
@@ -10,10 +7,6 @@ interface PortfolioInfoPageProps {
 }
 
 export default function PortfolioInfoPage({ params }: PortfolioInfoPageProps) {
-  if (params.slug !== SECRET_SLUG) {
-    notFound()
-  }
-
   const basePath = `/portfolio/${params.slug}`
 
   return (
@@ -31,6 +24,13 @@ export default function PortfolioInfoPage({ params }: PortfolioInfoPageProps) {
         <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
           <code>npm run portfolio:bootstrap</code>
         </pre>
+        <p className="text-sm text-gray-600">
+          To re-run it after editing the file without losing daily history, preview with <code>--dry-run</code> and
+          apply only the differences with <code>--merge</code>:
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:bootstrap -- --merge</code>
+        </pre>
       </section>
 
       <section className="space-y-2">
@@ -49,6 +49,119 @@ export default function PortfolioInfoPage({ params }: PortfolioInfoPageProps) {
         </pre>
       </section>
 
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">4. Add or update an investor</h2>
+        <p className="text-sm text-gray-600">
+          Register each contributor, then set <code>investorId</code> on their DEPOSIT/WITHDRAW transactions:
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:investor -- --file ./examples/investor.json</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">5. Validate the ledger</h2>
+        <p className="text-sm text-gray-600">
+          List oversells, negative cash, unknown tokens and other ledger issues. Writes that introduce
+          errors are rejected unless <code>--force</code> is passed to <code>tx</code> or <code>bootstrap</code>.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:validate</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">6. Sync FX rates</h2>
+        <p className="text-sm text-gray-600">
+          When <code>reportingCurrency</code> is not USD, store historical rates so values and non-USD
+          deposits can be converted:
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:fx -- --currency EUR</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">7. Work with another portfolio</h2>
+        <p className="text-sm text-gray-600">
+          Register a portfolio with its own slug, then pass <code>--portfolio</code> to any command.
+          This page belongs to <code>{params.slug}</code>.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:create -- --id paper --slug your-paper-slug --name &quot;Paper sandbox&quot;</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">8. Void or delete a transaction</h2>
+        <p className="text-sm text-gray-600">
+          Voided entries stay in the ledger but no longer count; deleted ones are removed. Both clear daily
+          history from the transaction date. The dashboard&apos;s Transactions table does the same.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:void -- --id tx-123 --reason &quot;Duplicate import&quot;</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">9. Undo changes</h2>
+        <p className="text-sm text-gray-600">
+          Every change is logged with its author. Roll back the latest one, or everything after a point in time
+          (also available on the{' '}
+          <Link href={`${basePath}/history`} className="text-blue-600 hover:text-blue-700 underline">
+            change history
+          </Link>{' '}
+          page):
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:undo</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">10. Manage categories</h2>
+        <p className="text-sm text-gray-600">
+          Add, rename, recolor or reorder categories, then reference them from a token&apos;s <code>category</code> or{' '}
+          <code>tags</code>. List them with <code>npm run portfolio:categories</code>.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:category -- --id RWA --name &quot;Real-world assets&quot; --color &quot;#0EA5E9&quot;</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">11. Set target allocations</h2>
+        <p className="text-sm text-gray-600">
+          Target weights (decimals of total value) with a tolerance band drive the drift shown on the dashboard and
+          its rebalancing trades. Pass <code>--token</code> instead of <code>--category</code> for a single token.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:target -- --category Btc --weight 0.5 --tolerance 0.05</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">12. Report risk statistics</h2>
+        <p className="text-sm text-gray-600">
+          Volatility, Sharpe, Sortino, drawdowns and VaR/CVaR of the stored daily quota series (USD). Omit{' '}
+          <code>--days</code> to use the whole history.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>npm run portfolio:risk -- --days 365 --risk-free 0.04</code>
+        </pre>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">13. Export period returns</h2>
+        <p className="text-sm text-gray-600">
+          MTD, QTD, YTD, trailing and since-inception quota returns plus the monthly returns table as JSON, in the
+          reporting currency. Omit <code>date</code> to use the latest stored day.
+        </p>
+        <pre className="bg-gray-900 text-gray-100 p-3 rounded-lg text-sm overflow-x-auto">
+          <code>curl &quot;$PORTFOLIO_APP_URL/api/reports/returns?date=2025-06-30&quot;</code>
+        </pre>
+      </section>
+
       <section className="space-y-2">
         <h2 className="text-lg font-semibold text-gray-900">Required local files</h2>
         <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
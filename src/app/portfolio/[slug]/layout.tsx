@@ -0,0 +1,26 @@
+import { notFound } from 'next/navigation'
+import PortfolioClientWrapper from '@/components/PortfolioClientWrapper'
+import { getPortfolioBySlugServer } from '@/lib/server/portfolio-data'
+
+export const dynamic = 'force-dynamic'
+
+interface PortfolioSlugLayoutProps {
+  children: React.ReactNode
+  params: {
+    slug: string
+  }
+}
+
+export default async function PortfolioSlugLayout({ children, params }: PortfolioSlugLayoutProps) {
+  // Unknown slugs 404 so portfolio URLs stay unguessable
+  const portfolio = await getPortfolioBySlugServer(params.slug)
+  if (!portfolio) {
+    notFound()
+  }
+
+  return (
+    <PortfolioClientWrapper portfolio={portfolio}>
+      {children}
+    </PortfolioClientWrapper>
+  )
+}
@@ -1,17 +1,20 @@
-import { notFound } from 'next/navigation'
 import { Suspense } from 'react'
 import Link from 'next/link'
 import PortfolioTable from '@/components/PortfolioTable'
 import CategoryChart from '@/components/CategoryChart'
+import RebalancePlan from '@/components/RebalancePlan'
 import PerformanceSummary from '@/components/PerformanceSummary'
+import RiskStatisticsPanel from '@/components/RiskStatisticsPanel'
+import ReturnsSection from '@/components/ReturnsSection'
+import PerformanceAttribution from '@/components/PerformanceAttribution'
+import InvestorPositions from '@/components/InvestorPositions'
+import LedgerWarnings from '@/components/LedgerWarnings'
 import PortfolioHistorySection from '@/components/PortfolioHistorySection'
+import TransactionLedger from '@/components/TransactionLedger'
 import GmiLogRegressionChart from '@/components/GmiLogRegressionChart'
 import ErrorBoundary from '@/components/ui/ErrorBoundary'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 
-// Define your secret slug - make this random and hard to guess
-const SECRET_SLUG = process.env.PORTFOLIO_SECRET_SLUG || 'x7k9m2p-abc123-def456'
-
 function LoadingFallback({ height = 'h-32' }: { height?: string }) {
   return (
     <div className={`card ${height} flex items-center justify-center`}>
@@ -30,13 +33,14 @@ interface PortfolioPageProps {
 }
 
 export default function PortfolioPage({ params }: PortfolioPageProps) {
-  // Check if the slug matches the secret
-  if (params.slug !== SECRET_SLUG) {
-    notFound()
-  }
-
+  // Slug is resolved to a portfolio (or 404s) in the layout
   return (
     <div className="space-y-8">
+      {/* Ledger integrity warnings (hidden when the ledger is clean) */}
+      <ErrorBoundary>
+        <LedgerWarnings />
+      </ErrorBoundary>
+
       {/* Performance Summary */}
       <ErrorBoundary>
         <Suspense fallback={<LoadingFallback height="h-32" />}>
@@ -44,6 +48,20 @@ export default function PortfolioPage({ params }: PortfolioPageProps) {
         </Suspense>
       </ErrorBoundary>
 
+      {/* Volatility, risk-adjusted ratios, drawdowns and VaR of the quota series */}
+      <ErrorBoundary>
+        <Suspense fallback={<LoadingFallback height="h-32" />}>
+          <RiskStatisticsPanel />
+        </Suspense>
+      </ErrorBoundary>
+
+      {/* Investor Positions */}
+      <ErrorBoundary>
+        <Suspense fallback={<LoadingFallback height="h-32" />}>
+          <InvestorPositions />
+        </Suspense>
+      </ErrorBoundary>
+
       {/* Portfolio History */}
       <ErrorBoundary>
         <Suspense fallback={<LoadingFallback height="h-80" />}>
@@ -51,6 +69,20 @@ export default function PortfolioPage({ params }: PortfolioPageProps) {
         </Suspense>
       </ErrorBoundary>
 
+      {/* Period returns and the year-by-month returns heatmap */}
+      <ErrorBoundary>
+        <Suspense fallback={<LoadingFallback height="h-64" />}>
+          <ReturnsSection />
+        </Suspense>
+      </ErrorBoundary>
+
+      {/* Contribution of each token and category to the quota return over a range */}
+      <ErrorBoundary>
+        <Suspense fallback={<LoadingFallback height="h-80" />}>
+          <PerformanceAttribution />
+        </Suspense>
+      </ErrorBoundary>
+
       {/* Table then Chart (always stacked) */}
       <div className="space-y-8">
         {/* Portfolio Table */}
@@ -72,6 +104,16 @@ export default function PortfolioPage({ params }: PortfolioPageProps) {
         </div>
       </div>
 
+      {/* Drift from target weights and rebalancing trades */}
+      <ErrorBoundary>
+        <RebalancePlan />
+      </ErrorBoundary>
+
+      {/* Transaction ledger (void / delete) */}
+      <ErrorBoundary>
+        <TransactionLedger />
+      </ErrorBoundary>
+
       {/* GMI Log Regression — BTC fair-value highway */}
       <ErrorBoundary>
         <Suspense fallback={<LoadingFallback height="h-96" />}>
@@ -86,12 +128,16 @@ export default function PortfolioPage({ params }: PortfolioPageProps) {
           Last updated from CoinGecko API.
         </p>
         <p className="mt-1">
-          Special calculations applied for ETHW, ETHA (ETH amounts) and BITB (BTC amounts).
+          Tokens with a price proxy (ETFs, wrappers, staked assets) are valued through their reference asset.
         </p>
         <p className="mt-2">
           <Link href={`/portfolio/${params.slug}/info`} className="text-blue-600 hover:text-blue-700 underline">
             Portfolio data CLI guide
           </Link>
+          {' · '}
+          <Link href={`/portfolio/${params.slug}/history`} className="text-blue-600 hover:text-blue-700 underline">
+            Change history
+          </Link>
         </p>
       </div>
     </div>
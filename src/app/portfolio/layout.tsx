@@ -1,5 +1,4 @@
 import type { Metadata } from 'next'
-import PortfolioClientWrapper from '@/components/PortfolioClientWrapper'
 
 export const metadata: Metadata = {
   title: 'Portfolio Dashboard',
@@ -11,9 +10,5 @@ export default function PortfolioLayout({
 }: {
   children: React.ReactNode
 }) {
-  return (
-    <PortfolioClientWrapper>
-      {children}
-    </PortfolioClientWrapper>
-  )
-} 
\ No newline at end of file
+  return children
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { formatDate } from '@/lib/utils/formatters'
+import { DASHBOARD_ACTOR } from '@/lib/constants/portfolio-data'
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt'])
+
+function describeChange(before: Record<string, unknown> | undefined, after: Record<string, unknown> | undefined) {
+  if (!before || !after) return null
+
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return keys
+    .filter((key) => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => `${key}: ${JSON.stringify(before[key]) ?? '—'} → ${JSON.stringify(after[key]) ?? '—'}`)
+    .join(', ')
+}
+
+function BatchEntries({ batchId }: { batchId: string }) {
+  const entries = useQuery(api.audit.listEntries, { batchId })
+
+  if (entries === undefined) {
+    return <div className="px-2 py-1.5 text-slate-500">Loading changes...</div>
+  }
+
+  return (
+    <ul className="space-y-0.5 px-2 py-1.5 font-mono text-[11px] text-slate-600">
+      {entries.map((entry) => (
+        <li key={entry._id}>
+          <span
+            className={
+              entry.operation === 'insert'
+                ? 'text-emerald-700'
+                : entry.operation === 'delete'
+                  ? 'text-rose-700'
+                  : 'text-amber-700'
+            }
+          >
+            {entry.operation}
+          </span>{' '}
+          {entry.table}/{entry.documentKey}
+          {entry.operation === 'update' && (
+            <span className="text-slate-500"> {describeChange(entry.before, entry.after)}</span>
+          )}
+        </li>
+      ))}
+      {entries.length === 200 && <li className="text-slate-400">Showing the first 200 changes</li>}
+    </ul>
+  )
+}
+
+export default function AuditHistory() {
+  const { id: portfolioId } = usePortfolioInfo()
+  const batches = useQuery(api.audit.listBatches, { portfolioId, limit: 100 })
+  const undoLast = useMutation(api.audit.undoLast)
+  const restoreToPoint = useMutation(api.audit.restoreToPoint)
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Batches rolled back by a later undo/restore that is itself still in effect
+  const revertedBatchIds = useMemo(() => {
+    const reverted = new Set<string>()
+    for (const batch of batches || []) {
+      if (reverted.has(batch.batchId)) continue
+      batch.revertsBatchIds?.forEach((batchId) => reverted.add(batchId))
+    }
+    return reverted
+  }, [batches])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update portfolio history')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleUndo = () => {
+    if (!window.confirm('Undo the most recent change?')) return
+    run(() => undoLast({ portfolioId, actor: DASHBOARD_ACTOR }))
+  }
+
+  const handleRestore = (timestamp: number) => {
+    const label = formatDate(new Date(timestamp))
+    if (!window.confirm(`Restore the portfolio to how it was right after the change at ${label}?`)) return
+    run(() => restoreToPoint({ portfolioId, timestamp, actor: DASHBOARD_ACTOR }))
+  }
+
+  if (batches === undefined) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 w-1/3 rounded bg-gray-200" />
+          <div className="h-48 rounded bg-gray-200" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="mb-5 flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Change history</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            Every write to tokens, categories, transactions, investors, settings and daily history, newest first.
+          </p>
+        </div>
+        <button
+          onClick={handleUndo}
+          disabled={isWorking || batches.length === 0}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          Undo last change
+        </button>
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-600">Error: {error}</div>}
+
+      {batches.length === 0 ? (
+        <div className="text-gray-500">No changes recorded yet</div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="min-w-full divide-y divide-slate-200 text-xs">
+            <thead className="bg-slate-50">
+              <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                <th className="px-2 py-1.5">When</th>
+                <th className="px-2 py-1.5">Change</th>
+                <th className="px-2 py-1.5">Actor</th>
+                <th className="px-2 py-1.5 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 bg-white">
+              {batches.map((batch, index) => {
+                const isExpanded = expandedBatchId === batch.batchId
+                const isReverted = revertedBatchIds.has(batch.batchId)
+
+                return [
+                  <tr key={batch.batchId} className={isReverted ? 'text-slate-400' : 'hover:bg-slate-50/80'}>
+                    <td className="whitespace-nowrap px-2 py-1.5 tabular-nums">{formatDate(new Date(batch.timestamp))}</td>
+                    <td className="px-2 py-1.5">
+                      <button
+                        onClick={() => setExpandedBatchId(isExpanded ? null : batch.batchId)}
+                        className="font-mono text-left hover:underline"
+                      >
+                        {batch.mutation}
+                      </button>
+                      {batch.revertsBatchIds && (
+                        <span className="ml-1 text-[10px] text-slate-500">
+                          (rolls back {batch.revertsBatchIds.length} change{batch.revertsBatchIds.length === 1 ? '' : 's'})
+                        </span>
+                      )}
+                      {isReverted && (
+                        <span className="ml-1 rounded bg-slate-200 px-1 text-[10px] uppercase text-slate-600">
+                          undone
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5">{batch.actor}</td>
+                    <td className="whitespace-nowrap px-2 py-1.5 text-right">
+                      {index > 0 && (
+                        <button
+                          onClick={() => handleRestore(batch.timestamp)}
+                          disabled={isWorking}
+                          className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                        >
+                          Restore to here
+                        </button>
+                      )}
+                    </td>
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${batch.batchId}-entries`} className="bg-slate-50/60">
+                      <td colSpan={4}>
+                        <BatchEntries batchId={batch.batchId} />
+                      </td>
+                    </tr>
+                  ),
+                ]
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,10 +4,11 @@ import { useEffect, useMemo, useState } from 'react'
 import { usePortfolio } from '@/hooks/usePortfolio'
 import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Sector } from 'recharts'
-import { formatCurrency, formatPortfolioPercentage } from '@/lib/utils/formatters'
-import { CATEGORY_COLORS, CATEGORY_NAMES } from '@/lib/constants/portfolio-data'
-import { aggregateBitcoinEthereumCategories } from '@/lib/utils/calculations'
-import type { PortfolioItem } from '@/lib/types/portfolio'
+import { formatCurrency, formatDrift, formatPortfolioPercentage } from '@/lib/utils/formatters'
+import { aggregateByCategory, aggregateCategoryItems, isCashItem } from '@/lib/utils/calculations'
+import { CategoryLookup, createCategoryLookup } from '@/lib/utils/categories'
+import { calculateAllocationDrift } from '@/lib/utils/rebalancing'
+import type { AllocationDrift, PortfolioItem } from '@/lib/types/portfolio'
 
 const MIN_CHART_PERCENT = 0.1
 const MIN_ASSET_VALUE = 10
@@ -25,7 +26,7 @@ const ASSET_COLORS = [
   '#0E7490',
 ] as const
 
-type ViewMode = 'category' | 'assets'
+type ViewMode = 'category' | 'tags' | 'assets'
 
 type ChartRow = {
   id: string
@@ -33,40 +34,41 @@ type ChartRow = {
   totalValue: number
   percentage: number
   fill: string
-}
-
-function getCategoryColor(category: string) {
-  return CATEGORY_COLORS[category as keyof typeof CATEGORY_COLORS] || '#64748B'
-}
-
-function getCategoryLabel(category: string) {
-  return CATEGORY_NAMES[category as keyof typeof CATEGORY_NAMES] || category
+  drift?: AllocationDrift
 }
 
 function getAssetLabel(item: PortfolioItem) {
   const name = item.token.name.replace(/\s*\(Aggregated\)\s*$/i, '').trim()
-  if (item.token.symbol === 'BTC') return 'Bitcoin'
-  if (item.token.symbol === 'ETH') return 'Ethereum'
   return name || item.token.symbol
 }
 
-function getAssetColor(item: PortfolioItem, paletteIndex: number) {
-  if (item.token.symbol === 'BTC' || item.token.category === 'Btc') {
-    return CATEGORY_COLORS.Btc
-  }
-  if (item.token.symbol === 'ETH' || item.token.category === 'Eth') {
-    return CATEGORY_COLORS.Eth
+// Cash and aggregated categories keep their category color; other assets cycle the palette
+function hasCategoryColor(item: PortfolioItem, getCategory: CategoryLookup) {
+  return isCashItem(item) || Boolean(getCategory(item.token.category).aggregateSymbol)
+}
+
+function getAssetColor(item: PortfolioItem, paletteIndex: number, getCategory: CategoryLookup) {
+  if (hasCategoryColor(item, getCategory)) {
+    return getCategory(item.token.category).color
   }
   return ASSET_COLORS[paletteIndex % ASSET_COLORS.length]
 }
 
-function ChartTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: ChartRow }> }) {
+function ChartTooltip({
+  active,
+  payload,
+  currency,
+}: {
+  active?: boolean
+  payload?: Array<{ payload: ChartRow }>
+  currency?: string
+}) {
   if (!active || !payload?.length) return null
   const data = payload[0].payload
   return (
     <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 shadow-md">
       <p className="text-sm font-semibold text-slate-900">{data.name}</p>
-      <p className="text-sm text-slate-600">{formatCurrency(data.totalValue)}</p>
+      <p className="text-sm text-slate-600">{formatCurrency(data.totalValue, currency)}</p>
       <p className="text-xs text-slate-500">{formatPortfolioPercentage(data.percentage)}</p>
     </div>
   )
@@ -100,9 +102,11 @@ function ActiveSlice(props: {
 function ModeToggle({
   mode,
   onChange,
+  showTags,
 }: {
   mode: ViewMode
   onChange: (mode: ViewMode) => void
+  showTags: boolean
 }) {
   return (
     <div
@@ -113,9 +117,10 @@ function ModeToggle({
       {(
         [
           { id: 'category', label: 'Categories' },
+          { id: 'tags', label: 'Tags' },
           { id: 'assets', label: 'Assets' },
         ] as const
-      ).map((option) => {
+      ).filter((option) => showTags || option.id !== 'tags').map((option) => {
         const selected = mode === option.id
         return (
           <button
@@ -139,43 +144,49 @@ function ModeToggle({
 
 export default function CategoryChart() {
   const { selectedDate } = usePortfolioDate()
-  const { categories, portfolioItems, loading, error } = usePortfolio({ selectedDate })
+  const { categories, categoryDefinitions, portfolioItems, loading, error, currency } = usePortfolio({ selectedDate })
   const [mode, setMode] = useState<ViewMode>('category')
   const [activeIndex, setActiveIndex] = useState<number | null>(null)
 
+  const getCategory = useMemo(() => createCategoryLookup(categoryDefinitions), [categoryDefinitions])
+  const hasTags = portfolioItems.some((item) => item.token.tags?.length)
+
   useEffect(() => {
     setActiveIndex(null)
   }, [mode])
 
   const listRows = useMemo<ChartRow[]>(() => {
-    if (mode === 'category') {
-      if (!categories?.length) return []
-      return [...categories]
-        .sort((a, b) => b.totalValue - a.totalValue)
-        .map((c) => ({
-          id: c.category,
-          name: getCategoryLabel(c.category),
-          totalValue: c.totalValue,
-          percentage: c.percentage,
-          fill: getCategoryColor(c.category),
-        }))
+    if (mode === 'category' || mode === 'tags') {
+      const rows =
+        mode === 'tags'
+          ? aggregateByCategory(portfolioItems, categoryDefinitions, { includeTags: true })
+          : categories
+      if (!rows?.length) return []
+      // Targets apply to primary categories only
+      const drifts =
+        mode === 'category'
+          ? new Map(calculateAllocationDrift(portfolioItems, [], categoryDefinitions).map((d) => [d.id, d]))
+          : new Map<string, AllocationDrift>()
+      return rows.map((c) => ({
+        id: c.category,
+        name: getCategory(c.category).name,
+        totalValue: c.totalValue,
+        percentage: c.percentage,
+        fill: getCategory(c.category).color,
+        drift: drifts.get(c.category),
+      }))
     }
 
     if (!portfolioItems?.length) return []
 
-    const aggregated = aggregateBitcoinEthereumCategories(portfolioItems)
+    const aggregated = aggregateCategoryItems(portfolioItems, categoryDefinitions)
     let paletteIndex = 0
 
     return [...aggregated]
       .filter((item) => item.currentValue >= MIN_ASSET_VALUE)
       .sort((a, b) => b.currentValue - a.currentValue)
       .map((item) => {
-        const isBtcOrEth =
-          item.token.symbol === 'BTC' ||
-          item.token.symbol === 'ETH' ||
-          item.token.category === 'Btc' ||
-          item.token.category === 'Eth'
-        const fill = getAssetColor(item, isBtcOrEth ? 0 : paletteIndex++)
+        const fill = getAssetColor(item, hasCategoryColor(item, getCategory) ? 0 : paletteIndex++, getCategory)
         return {
           id: item.token.symbol,
           name: getAssetLabel(item),
@@ -184,7 +195,7 @@ export default function CategoryChart() {
           fill,
         }
       })
-  }, [mode, categories, portfolioItems])
+  }, [mode, categories, categoryDefinitions, getCategory, portfolioItems])
 
   const chartData = useMemo(
     () =>
@@ -224,7 +235,7 @@ export default function CategoryChart() {
       <div className="card">
         <div className="mb-4 flex items-center justify-between gap-3">
           <h2 className="text-xl font-semibold text-gray-900">Allocation</h2>
-          <ModeToggle mode={mode} onChange={setMode} />
+          <ModeToggle mode={mode} onChange={setMode} showTags={hasTags} />
         </div>
         <div className="text-gray-500">No data available</div>
       </div>
@@ -239,10 +250,12 @@ export default function CategoryChart() {
           <p className="mt-1 text-sm text-slate-500">
             {mode === 'category'
               ? 'Share of portfolio value by category'
-              : 'Share of portfolio value by asset'}
+              : mode === 'tags'
+                ? 'Exposure by category and tag (tagged tokens count in each)'
+                : 'Share of portfolio value by asset'}
           </p>
         </div>
-        <ModeToggle mode={mode} onChange={setMode} />
+        <ModeToggle mode={mode} onChange={setMode} showTags={hasTags} />
       </div>
 
       <div className="mt-5 grid items-center gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,1.1fr)]">
@@ -277,7 +290,7 @@ export default function CategoryChart() {
                   />
                 ))}
               </Pie>
-              <Tooltip content={<ChartTooltip />} />
+              <Tooltip content={<ChartTooltip currency={currency} />} />
             </PieChart>
           </ResponsiveContainer>
 
@@ -328,7 +341,7 @@ export default function CategoryChart() {
                     {formatPortfolioPercentage(row.percentage)}
                   </span>
                 </div>
-                <div className="h-1.5 overflow-hidden rounded-full bg-slate-100">
+                <div className="relative h-1.5 overflow-hidden rounded-full bg-slate-100">
                   <div
                     className="h-full rounded-full transition-[width] duration-300"
                     style={{
@@ -337,9 +350,25 @@ export default function CategoryChart() {
                       opacity: isDust ? 0.35 : 0.9,
                     }}
                   />
+                  {row.drift && (
+                    <div
+                      className="absolute top-0 h-full w-0.5 bg-slate-900/60"
+                      style={{ left: `${Math.min(row.drift.targetWeight * 100, 99.5)}%` }}
+                    />
+                  )}
                 </div>
-                <div className="mt-1 text-right text-xs tabular-nums text-slate-500">
-                  {formatCurrency(row.totalValue)}
+                <div className="mt-1 flex justify-between gap-3 text-xs tabular-nums text-slate-500">
+                  <span>
+                    {row.drift && (
+                      <>
+                        Target {formatPortfolioPercentage(row.drift.targetWeight * 100)}{' '}
+                        <span className={row.drift.outOfBand ? 'font-medium text-amber-700' : ''}>
+                          {formatDrift(row.drift.drift)}
+                        </span>
+                      </>
+                    )}
+                  </span>
+                  <span>{formatCurrency(row.totalValue, currency)}</span>
                 </div>
               </button>
             )
@@ -0,0 +1,115 @@
+'use client'
+
+import { usePortfolio } from '@/hooks/usePortfolio'
+import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { formatCurrency, formatPerformance, formatPortfolioPercentage } from '@/lib/utils/formatters'
+
+function formatSignedCurrency(value: number, currency: string): string {
+  const absolute = formatCurrency(Math.abs(value), currency)
+  if (value > 0) return `+${absolute}`
+  if (value < 0) return `-${absolute}`
+  return absolute
+}
+
+function signedTone(value: number): string {
+  if (value > 0) return 'text-emerald-700'
+  if (value < 0) return 'text-rose-700'
+  return 'text-slate-600'
+}
+
+export default function InvestorPositions() {
+  const { selectedDate } = usePortfolioDate()
+  const { investorPositions, loading, error, currency } = usePortfolio({ selectedDate })
+
+  if (loading) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 w-1/3 rounded bg-gray-200" />
+          <div className="h-24 rounded bg-gray-200" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="card">
+        <h2 className="mb-4 text-xl font-semibold text-gray-900">Investors</h2>
+        <div className="text-red-600">Error: {error}</div>
+      </div>
+    )
+  }
+
+  if (investorPositions.length === 0) {
+    return (
+      <div className="card">
+        <h2 className="mb-4 text-xl font-semibold text-gray-900">Investors</h2>
+        <div className="text-gray-500">No deposits recorded</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="mb-5">
+        <h2 className="text-xl font-semibold text-gray-900">Investors</h2>
+        <p className="mt-1 text-sm text-slate-500">Shares owned and capital contributed per investor</p>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-slate-200">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 text-xs">
+            <thead className="bg-slate-50">
+              <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                <th className="px-2 py-1.5">Investor</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Shares</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Ownership</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Contributed</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Withdrawn</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Value</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">P&L</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 bg-white">
+              {investorPositions.map((position) => {
+                const netContributed = position.contributedCapital - position.withdrawnCapital
+                const pnlPercent = netContributed > 0 ? (position.pnl / netContributed) * 100 : null
+
+                return (
+                  <tr key={position.investorId} className="transition-colors hover:bg-slate-50/80">
+                    <td className="px-2 py-1.5">
+                      <div className="font-medium text-slate-900">{position.name}</div>
+                      <div className="text-[10px] text-slate-500">{position.investorId}</div>
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {position.shares.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {formatPortfolioPercentage(position.ownership)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {formatCurrency(position.contributedCapital, currency)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {formatCurrency(position.withdrawnCapital, currency)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-medium tabular-nums text-slate-900">
+                      {formatCurrency(position.currentValue, currency)}
+                    </td>
+                    <td className={`px-2 py-1.5 text-right tabular-nums ${signedTone(position.pnl)}`}>
+                      {formatSignedCurrency(position.pnl, currency)}
+                      {pnlPercent !== null && (
+                        <span className="ml-1 text-[10px]">({formatPerformance(pnlPercent)})</span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
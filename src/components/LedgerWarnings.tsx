@@ -0,0 +1,49 @@
+'use client'
+
+import { useMemo } from 'react'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { validateLedger } from '@/lib/utils/ledger-validation'
+
+export default function LedgerWarnings() {
+  const { snapshot } = usePortfolioData()
+
+  const issues = useMemo(() => {
+    if (!snapshot) return []
+    return validateLedger(snapshot.transactions, snapshot.tokens, {
+      initialQuotaValue: snapshot.settings?.initialQuotaValue,
+    })
+  }, [snapshot])
+
+  if (issues.length === 0) return null
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length
+  const hasErrors = errorCount > 0
+
+  return (
+    <div className={`card border ${hasErrors ? 'border-rose-200 bg-rose-50/60' : 'border-amber-200 bg-amber-50/60'}`}>
+      <div className="mb-3">
+        <h2 className={`text-lg font-semibold ${hasErrors ? 'text-rose-800' : 'text-amber-800'}`}>Ledger issues</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          {errorCount} error(s), {issues.length - errorCount} warning(s). Figures below may be wrong until these
+          transactions are fixed (run <code className="rounded bg-white/70 px-1">npm run portfolio:validate</code>).
+        </p>
+      </div>
+
+      <ul className="space-y-1 text-xs">
+        {issues.map((issue, index) => (
+          <li key={`${issue.transactionId}-${issue.code}-${index}`} className="flex gap-2">
+            <span
+              className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${
+                issue.severity === 'error' ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'
+              }`}
+            >
+              {issue.severity}
+            </span>
+            <span className="font-mono text-slate-700">{issue.transactionId}</span>
+            <span className="text-slate-600">{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format, parseISO, subDays } from 'date-fns'
+import { Bar, BarChart, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { usePortfolio } from '@/hooks/usePortfolio'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { useDailyPrices } from '@/hooks/useDailyPrices'
+import { ReturnPeriod } from '@/lib/types/portfolio'
+import { formatCurrency, formatPerformance } from '@/lib/utils/formatters'
+import { calculatePerformanceAttribution } from '@/lib/utils/attribution'
+import { createCategoryLookup } from '@/lib/utils/categories'
+import { getPricingId } from '@/lib/utils/portfolio-pricing'
+import { getPeriodStartDate } from '@/lib/utils/returns'
+import { excludeVoided } from '@/lib/utils/transaction-order'
+
+type AttributionPeriod = ReturnPeriod | 'custom'
+type AttributionView = 'tokens' | 'categories'
+
+const ATTRIBUTION_PERIODS: { value: AttributionPeriod; label: string }[] = [
+  { value: 'MTD', label: 'MTD' },
+  { value: '1M', label: '1M' },
+  { value: 'QTD', label: 'QTD' },
+  { value: '3M', label: '3M' },
+  { value: 'YTD', label: 'YTD' },
+  { value: '1Y', label: '1Y' },
+  { value: 'ITD', label: 'All' },
+  { value: 'custom', label: 'Custom' },
+]
+
+// Largest contributors drawn as their own waterfall step; the rest are grouped
+const MAX_WATERFALL_STEPS = 10
+
+interface WaterfallRow {
+  name: string
+  range: [number, number]
+  value: number
+  isTotal: boolean
+}
+
+function WaterfallTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: WaterfallRow }> }) {
+  if (!active || !payload?.length) return null
+  const data = payload[0].payload
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 shadow-md">
+      <p className="text-sm font-semibold text-slate-900">{data.name}</p>
+      <p className="text-sm tabular-nums text-slate-600">{formatPerformance(data.value)}</p>
+    </div>
+  )
+}
+
+export default function PerformanceAttribution() {
+  const { selectedDate } = usePortfolioDate()
+  const { snapshot } = usePortfolioData()
+  const { tokens, categoryDefinitions, loading, currency } = usePortfolio({ selectedDate })
+  const { converter } = useReportingCurrency()
+  const [period, setPeriod] = useState<AttributionPeriod>('1M')
+  const [customStart, setCustomStart] = useState('')
+  const [customEnd, setCustomEnd] = useState('')
+  const [view, setView] = useState<AttributionView>('tokens')
+
+  // Daily closes are stored up to yesterday
+  const lastClose = format(subDays(new Date(), 1), 'yyyy-MM-dd')
+  const defaultEnd = selectedDate && selectedDate < lastClose ? selectedDate : lastClose
+
+  const ledger = useMemo(() => excludeVoided(snapshot?.transactions || []), [snapshot])
+  const firstTransactionDate = ledger.reduce<string | null>(
+    (min, tx) => (min === null || tx.date < min ? tx.date : min),
+    null
+  )
+  const inceptionClose = firstTransactionDate
+    ? format(subDays(parseISO(firstTransactionDate), 1), 'yyyy-MM-dd')
+    : null
+
+  const endDate = period === 'custom' && customEnd ? customEnd : defaultEnd
+  const requestedStart =
+    period === 'custom' ? customStart || null : period === 'ITD' ? inceptionClose : getPeriodStartDate(period, endDate)
+  const startDate =
+    requestedStart && inceptionClose && requestedStart < inceptionClose ? inceptionClose : requestedStart
+  const hasRange = Boolean(startDate && startDate < endDate)
+
+  // Price every token the ledger has touched by the end of the range
+  const priceIds = useMemo(() => {
+    const symbols = new Set<string>()
+    ledger
+      .filter((tx) => tx.date <= endDate)
+      .forEach((tx) => [tx.tokenSymbol, tx.fromSymbol, tx.toSymbol].forEach((symbol) => symbol && symbols.add(symbol)))
+    return Array.from(new Set(tokens.filter((token) => symbols.has(token.symbol)).map(getPricingId))).sort()
+  }, [ledger, tokens, endDate])
+
+  const { prices, loading: pricesLoading, isSyncing, error } = useDailyPrices(
+    priceIds,
+    hasRange ? startDate : null,
+    endDate
+  )
+
+  // USD ledger and settings; the engine converts holdings and cash at each day's rate
+  const initialQuotaValue = snapshot?.settings?.initialQuotaValue ?? 1
+  const attribution = useMemo(() => {
+    if (!hasRange || !startDate || pricesLoading) return null
+    return calculatePerformanceAttribution(ledger, tokens, prices, {
+      startDate,
+      endDate,
+      initialQuotaValue,
+      rateOn: converter.rateOn,
+    })
+  }, [hasRange, startDate, endDate, pricesLoading, initialQuotaValue, ledger, tokens, prices, converter])
+
+  const getCategory = useMemo(() => createCategoryLookup(categoryDefinitions), [categoryDefinitions])
+
+  const entries = useMemo(() => {
+    if (!attribution) return []
+    return view === 'tokens'
+      ? attribution.tokens.map((token) => ({
+          key: token.symbol,
+          label: token.symbol,
+          detail: getCategory(token.category).name,
+          averageWeight: token.averageWeight,
+          pnl: token.pnl,
+          contribution: token.contribution,
+        }))
+      : attribution.categories.map((category) => ({
+          key: category.category,
+          label: getCategory(category.category).name,
+          detail: null,
+          averageWeight: category.averageWeight,
+          pnl: category.pnl,
+          contribution: category.contribution,
+        }))
+  }, [attribution, view, getCategory])
+
+  const waterfall = useMemo<WaterfallRow[]>(() => {
+    if (!attribution) return []
+
+    const steps = entries.slice(0, MAX_WATERFALL_STEPS).map((entry) => ({ name: entry.label, value: entry.contribution }))
+    const rest = entries.slice(MAX_WATERFALL_STEPS)
+    if (rest.length > 0) {
+      steps.push({ name: `${rest.length} more`, value: rest.reduce((sum, entry) => sum + entry.contribution, 0) })
+    }
+    if (attribution.fees !== 0) steps.push({ name: 'Fees', value: attribution.fees })
+    if (Math.abs(attribution.other) >= 0.00005) steps.push({ name: 'Flows & other', value: attribution.other })
+
+    let cumulative = 0
+    const rows: WaterfallRow[] = steps.map((step) => {
+      const start = cumulative
+      cumulative += step.value * 100
+      return { name: step.name, range: [start, cumulative], value: step.value * 100, isTotal: false }
+    })
+    rows.push({
+      name: 'Quota',
+      range: [0, attribution.quotaReturn * 100],
+      value: attribution.quotaReturn * 100,
+      isTotal: true,
+    })
+    return rows
+  }, [attribution, entries])
+
+  if (loading || !snapshot) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 w-1/3 rounded bg-gray-200" />
+          <div className="h-64 rounded-lg bg-gray-200" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="mb-5 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Attribution</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            {attribution
+              ? `Contribution to the quota return from the ${attribution.startDate} close to the ${attribution.endDate} close`
+              : 'Contribution of each position to the quota return'}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex flex-wrap justify-end gap-1">
+            {ATTRIBUTION_PERIODS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  if (option.value === 'custom' && !customStart) {
+                    setCustomStart(startDate ?? '')
+                    setCustomEnd(endDate)
+                  }
+                  setPeriod(option.value)
+                }}
+                className={`rounded-md px-2 py-1 text-xs font-medium transition-colors ${
+                  period === option.value ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {period === 'custom' && (
+            <div className="flex items-center gap-1 text-xs text-slate-500">
+              <input
+                type="date"
+                value={customStart}
+                max={customEnd || defaultEnd}
+                onChange={(event) => setCustomStart(event.target.value)}
+                className="rounded-md border border-slate-200 px-2 py-0.5 text-xs text-slate-700"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={customEnd}
+                max={lastClose}
+                onChange={(event) => setCustomEnd(event.target.value)}
+                className="rounded-md border border-slate-200 px-2 py-0.5 text-xs text-slate-700"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!hasRange ? (
+        <div className="text-sm text-gray-500">Choose a start date before the end of the range.</div>
+      ) : !attribution ? (
+        <div className="h-64 animate-pulse rounded-lg bg-gray-100" />
+      ) : (
+        <>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-1">
+              {(['tokens', 'categories'] as AttributionView[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setView(option)}
+                  className={`rounded-md px-2 py-1 text-xs font-medium capitalize transition-colors ${
+                    view === option ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm tabular-nums text-slate-600">
+              Quota {formatPerformance(attribution.quotaReturn * 100)}
+            </p>
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={waterfall} margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+                <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} angle={-30} textAnchor="end" height={50} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={(value: number) => `${value.toFixed(1)}%`} width={56} />
+                <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'rgba(148, 163, 184, 0.12)' }} />
+                <ReferenceLine y={0} stroke="#94A3B8" />
+                <Bar dataKey="range" isAnimationActive={false}>
+                  {waterfall.map((row) => (
+                    <Cell
+                      key={row.name}
+                      fill={row.isTotal ? '#0F172A' : row.value >= 0 ? '#10B981' : '#F43F5E'}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-4 overflow-x-auto rounded-xl border border-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    {view === 'tokens' ? 'Token' : 'Category'}
+                  </th>
+                  <th className="px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    Avg Weight
+                  </th>
+                  <th className="px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    P&amp;L
+                  </th>
+                  <th className="px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    Contribution
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {entries.map((entry) => (
+                  <tr key={entry.key}>
+                    <td className="px-3 py-2">
+                      <span className="font-medium text-slate-900">{entry.label}</span>
+                      {entry.detail && <span className="ml-2 text-xs text-slate-500">{entry.detail}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                      {(entry.averageWeight * 100).toFixed(1)}%
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                      {formatCurrency(entry.pnl, currency)}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right font-semibold tabular-nums ${
+                        entry.contribution >= 0 ? 'text-emerald-700' : 'text-rose-700'
+                      }`}
+                    >
+                      {formatPerformance(entry.contribution * 100)}
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-3 py-2 text-slate-600">Fees</td>
+                  <td />
+                  <td />
+                  <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                    {formatPerformance(attribution.fees * 100)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 text-slate-600">Flows &amp; other</td>
+                  <td />
+                  <td />
+                  <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                    {formatPerformance(attribution.other * 100)}
+                  </td>
+                </tr>
+                <tr className="bg-slate-50">
+                  <td className="px-3 py-2 font-semibold text-slate-900">Quota return</td>
+                  <td />
+                  <td />
+                  <td className="px-3 py-2 text-right font-semibold tabular-nums text-slate-900">
+                    {formatPerformance(attribution.quotaReturn * 100)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500">
+            Holdings are replayed from the ledger each day and valued at stored daily closes. A position&apos;s P&amp;L
+            is its change in value less what was bought or sold that day, so trades within the period count only
+            while held. Flows &amp; other covers deposits and withdrawals priced away from the day&apos;s quota.
+            {isSyncing && ' Fetching missing daily closes...'}
+          </p>
+          {attribution.unpricedSymbols.length > 0 && (
+            <p className="mt-1 text-[11px] text-amber-700">
+              No stored close for {attribution.unpricedSymbols.join(', ')} on some days; valued at the last trade price.
+            </p>
+          )}
+          {error && <p className="mt-1 text-[11px] text-rose-600">{error}</p>}
+        </>
+      )}
+    </div>
+  )
+}
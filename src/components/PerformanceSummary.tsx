@@ -1,16 +1,47 @@
 'use client'
 
+import { useState } from 'react'
+import { format, parseISO, subMonths, subYears } from 'date-fns'
 import { usePortfolio } from '@/hooks/usePortfolio'
 import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { useFeeAccrual } from '@/hooks/useFeeAccrual'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { useMoneyWeightedReturn } from '@/hooks/useMoneyWeightedReturn'
 import { formatCurrency, formatPerformance } from '@/lib/utils/formatters'
+import { calculateQuotaPerformance } from '@/lib/utils/fund-calculations'
+import { BASE_CURRENCY, getCurrencySymbol } from '@/lib/utils/fx'
 
 function safeToFixed(value: number | null | undefined, decimals: number): string {
   if (value === null || value === undefined || Number.isNaN(value)) return '-'
   return value.toFixed(decimals)
 }
 
-function formatSignedCurrency(value: number): string {
-  const absolute = formatCurrency(Math.abs(value))
+type ReturnPeriod = 'inception' | 'ytd' | '1y' | '3m' | 'custom'
+
+const RETURN_PERIODS: { value: ReturnPeriod; label: string }[] = [
+  { value: 'inception', label: 'Since inception' },
+  { value: 'ytd', label: 'YTD' },
+  { value: '1y', label: '1Y' },
+  { value: '3m', label: '3M' },
+  { value: 'custom', label: 'Custom' },
+]
+
+// Day whose closing NAV opens the period; null means since inception
+function getPeriodStart(period: ReturnPeriod, endDate: Date, customStart: string): string | null {
+  if (period === 'ytd') return `${endDate.getFullYear() - 1}-12-31`
+  if (period === '1y') return format(subYears(endDate, 1), 'yyyy-MM-dd')
+  if (period === '3m') return format(subMonths(endDate, 3), 'yyyy-MM-dd')
+  if (period === 'custom') return customStart || null
+  return null
+}
+
+function formatRate(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '-'
+  return formatPerformance(value * 100)
+}
+
+function formatSignedCurrency(value: number, currency: string): string {
+  const absolute = formatCurrency(Math.abs(value), currency)
   if (value > 0) return `+${absolute}`
   if (value < 0) return `-${absolute}`
   return absolute
@@ -18,7 +49,14 @@ function formatSignedCurrency(value: number): string {
 
 export default function PerformanceSummary() {
   const { selectedDate } = usePortfolioDate()
-  const { summary, loading, error } = usePortfolio({ selectedDate })
+  const { summary, loading, error, currency, fxRate } = usePortfolio({ selectedDate })
+  const { hasFees, feeAccrual, unpostedFees, postFees, isPosting } = useFeeAccrual({ summary, selectedDate, fxRate })
+  const { missingRates } = useReportingCurrency()
+  const currencySymbol = getCurrencySymbol(currency)
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriod>('inception')
+  const [customStart, setCustomStart] = useState('')
+  const periodStart = getPeriodStart(returnPeriod, selectedDate ? parseISO(selectedDate) : new Date(), customStart)
+  const moneyWeighted = useMoneyWeightedReturn({ summary, selectedDate, startDate: periodStart })
 
   if (loading) {
     return (
@@ -56,6 +94,8 @@ export default function PerformanceSummary() {
 
   const quotaPerformance = summary.quotaPerformance ?? 0
   const pnl = (summary.totalValue ?? 0) - (summary.baselineValue ?? 0)
+  const totalIncome = summary.totalIncome ?? 0
+  const tradingPnl = pnl - totalIncome
   const isPositive = quotaPerformance >= 0
   const isFlat = quotaPerformance === 0
   const initialQuota = summary.initialQuotaValue ?? 1
@@ -91,7 +131,15 @@ export default function PerformanceSummary() {
       <div className="mb-5 flex flex-wrap items-start justify-between gap-3">
         <div>
           <h2 className="text-xl font-semibold text-gray-900">Fund Performance</h2>
-          <p className="mt-1 text-sm text-slate-500">Quota return and portfolio value vs initial capital</p>
+          <p className="mt-1 text-sm text-slate-500">
+            Quota return and portfolio value vs initial capital
+            {currency !== BASE_CURRENCY && ` (in ${currency})`}
+          </p>
+          {missingRates && (
+            <p className="mt-1 text-xs text-amber-700">
+              No USD/{missingRates} rates synced yet, showing USD. Run npm run portfolio:fx -- --currency {missingRates}.
+            </p>
+          )}
         </div>
         <span className={`rounded-md px-2.5 py-1 text-xs font-medium ${toneClasses.badge}`}>
           {isPositive ? 'In profit' : isFlat ? 'Flat' : 'In drawdown'}
@@ -110,10 +158,10 @@ export default function PerformanceSummary() {
             <p className="mt-2 text-sm text-slate-600">
               Quota{' '}
               <span className="font-semibold tabular-nums text-slate-900">
-                ${safeToFixed(quotaValue, 4)}
+                {currencySymbol}{safeToFixed(quotaValue, 4)}
               </span>
               <span className="text-slate-400"> / </span>
-              <span className="tabular-nums">${safeToFixed(initialQuota, 2)}</span>
+              <span className="tabular-nums">{currencySymbol}{safeToFixed(initialQuota, 2)}</span>
               <span className="text-slate-400"> initial</span>
             </p>
           </div>
@@ -128,9 +176,37 @@ export default function PerformanceSummary() {
             <div>
               <p className="text-xs text-slate-500">P&L</p>
               <p className={`mt-0.5 text-sm font-semibold tabular-nums ${toneClasses.value}`}>
-                {formatSignedCurrency(pnl)}
+                {formatSignedCurrency(pnl, currency)}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-slate-500">Realized P&L</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatSignedCurrency(summary.realizedPnl ?? 0, currency)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Unrealized P&L</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatSignedCurrency(summary.unrealizedPnl ?? 0, currency)}
+              </p>
+            </div>
+            {totalIncome !== 0 && (
+              <>
+                <div>
+                  <p className="text-xs text-slate-500">Trading P&L</p>
+                  <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                    {formatSignedCurrency(tradingPnl, currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Income</p>
+                  <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                    {formatSignedCurrency(totalIncome, currency)}
+                  </p>
+                </div>
+              </>
+            )}
           </div>
         </div>
 
@@ -156,7 +232,7 @@ export default function PerformanceSummary() {
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
           <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Current Value</p>
           <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">
-            {formatCurrency(summary.totalValue)}
+            {formatCurrency(summary.totalValue, currency)}
           </p>
         </div>
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
@@ -164,16 +240,148 @@ export default function PerformanceSummary() {
             Initial Investment
           </p>
           <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">
-            {formatCurrency(summary.baselineValue)}
+            {formatCurrency(summary.baselineValue, currency)}
           </p>
         </div>
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
           <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Quota / Share</p>
           <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">
-            ${safeToFixed(quotaValue, 4)}
+            {currencySymbol}{safeToFixed(quotaValue, 4)}
           </p>
         </div>
       </div>
+
+      <div className="mt-5 rounded-lg border border-slate-200 px-4 py-3">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+            Time-weighted vs money-weighted
+          </p>
+          <div className="flex flex-wrap items-center gap-1">
+            {RETURN_PERIODS.map((period) => (
+              <button
+                key={period.value}
+                type="button"
+                onClick={() => setReturnPeriod(period.value)}
+                className={`rounded-md px-2 py-1 text-xs font-medium transition-colors ${
+                  returnPeriod === period.value
+                    ? 'bg-slate-900 text-white'
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {period.label}
+              </button>
+            ))}
+            {returnPeriod === 'custom' && (
+              <input
+                type="date"
+                value={customStart}
+                max={selectedDate || undefined}
+                onChange={(event) => setCustomStart(event.target.value)}
+                className="rounded-md border border-slate-200 px-2 py-0.5 text-xs text-slate-700"
+              />
+            )}
+          </div>
+        </div>
+
+        {moneyWeighted.missingStartValue ? (
+          <p className="text-sm text-amber-700">
+            No stored daily NAV for {periodStart}. Backfill the portfolio history to use this period.
+          </p>
+        ) : moneyWeighted.loading || !moneyWeighted.result ? (
+          <div className="h-10 animate-pulse rounded bg-gray-100" />
+        ) : (
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3 sm:grid-cols-4">
+            <div>
+              <p className="text-xs text-slate-500">Quota Return</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatRate(moneyWeighted.quotaReturn)}
+              </p>
+              <p className="text-[11px] text-slate-500">time-weighted</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Money-Weighted Return</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatRate(moneyWeighted.result.periodReturn)}
+              </p>
+              <p className="text-[11px] text-slate-500">
+                {moneyWeighted.result.startDate} to {moneyWeighted.result.endDate}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">XIRR</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatRate(moneyWeighted.result.annualizedReturn)}
+              </p>
+              <p className="text-[11px] text-slate-500">annualized</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Gain on Capital</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatSignedCurrency(moneyWeighted.result.gain, currency)}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">
+                {formatSignedCurrency(moneyWeighted.result.netContributions, currency)} net contributed
+              </p>
+            </div>
+          </div>
+        )}
+
+        <p className="mt-3 text-xs text-slate-500">
+          The quota return is what one share earned, regardless of when money came in or out. The
+          money-weighted return (XIRR) is the rate our actual deposits and withdrawals earned: it beats
+          the quota return when more capital was in the fund during its good stretches, and trails it
+          when deposits landed just before a drop.
+        </p>
+      </div>
+
+      {hasFees && feeAccrual && (
+        <div className="mt-5 rounded-lg border border-slate-200 px-4 py-3">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Fees</p>
+            {unpostedFees.length > 0 && !selectedDate && (
+              <button
+                type="button"
+                onClick={() => postFees()}
+                disabled={isPosting}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 shadow-sm transition-colors hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isPosting ? 'Posting…' : `Post ${unpostedFees.length} crystallized fee${unpostedFees.length === 1 ? '' : 's'}`}
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3 sm:grid-cols-4">
+            <div>
+              <p className="text-xs text-slate-500">Gross Return</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatPerformance(calculateQuotaPerformance(feeAccrual.grossQuotaValue * fxRate, initialQuota))}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">{currencySymbol}{safeToFixed(feeAccrual.grossQuotaValue * fxRate, 4)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Net Return</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatPerformance(calculateQuotaPerformance(feeAccrual.netQuotaValue * fxRate, initialQuota))}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">{currencySymbol}{safeToFixed(feeAccrual.netQuotaValue * fxRate, 4)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">High-Water Mark</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {currencySymbol}{safeToFixed(feeAccrual.highWaterMark * fxRate, 4)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Accrued / Paid</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatCurrency((feeAccrual.accruedManagementFee + feeAccrual.accruedPerformanceFee) * fxRate, currency)}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">
+                {formatCurrency((feeAccrual.totalManagementFees + feeAccrual.totalPerformanceFees) * fxRate, currency)} paid
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -2,6 +2,8 @@
 
 import { ReactNode } from 'react'
 import { PortfolioDateProvider, usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { PortfolioProvider, usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { PortfolioInfo } from '@/lib/types/portfolio'
 import ConvexClientProvider from '@/components/ConvexClientProvider'
 import DatePicker from './DatePicker'
 
@@ -53,6 +55,7 @@ function HistoricalFetchProgress() {
 // Header component that uses the date context
 function PortfolioHeader() {
   const { selectedDate, setSelectedDate, isFetchingHistorical } = usePortfolioDate()
+  const portfolio = usePortfolioInfo()
   
   return (
     <header className="bg-white shadow-sm border-b">
@@ -60,7 +63,7 @@ function PortfolioHeader() {
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center py-4 sm:py-6 gap-4">
           <div className="flex items-center">
             <h1 className="text-2xl font-bold text-gray-900">
-              Portfolio Dashboard
+              {portfolio.name}
             </h1>
           </div>
           <DatePicker
@@ -75,21 +78,24 @@ function PortfolioHeader() {
 }
 
 interface PortfolioClientWrapperProps {
+  portfolio: PortfolioInfo
   children: ReactNode
 }
 
-export default function PortfolioClientWrapper({ children }: PortfolioClientWrapperProps) {
+export default function PortfolioClientWrapper({ portfolio, children }: PortfolioClientWrapperProps) {
   return (
     <ConvexClientProvider>
-      <PortfolioDateProvider>
-        <div className="min-h-screen bg-gray-50">
-          <PortfolioHeader />
-          <HistoricalFetchProgress />
-          <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-            {children}
-          </main>
-        </div>
-      </PortfolioDateProvider>
+      <PortfolioProvider portfolio={portfolio}>
+        <PortfolioDateProvider>
+          <div className="min-h-screen bg-gray-50">
+            <PortfolioHeader />
+            <HistoricalFetchProgress />
+            <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+              {children}
+            </main>
+          </div>
+        </PortfolioDateProvider>
+      </PortfolioProvider>
     </ConvexClientProvider>
   )
 }
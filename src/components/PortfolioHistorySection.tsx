@@ -1,21 +1,50 @@
 'use client'
 
 import { useEffect, useMemo, useRef, useState } from 'react'
-import { addDays, format, isAfter, parseISO } from 'date-fns'
-import { Area, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { addDays, format, isAfter, parseISO, subMonths, subYears } from 'date-fns'
+import {
+  Area,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
 import { useMutation, useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
 import { fetchPrices, fetchSingleTokenHistoricalPrice } from '@/lib/api/client'
 import { calculatePortfolioValue, processTransactions } from '@/lib/utils/fund-calculations'
+import { excludeVoided, sortTransactions } from '@/lib/utils/transaction-order'
+import { convertSettings } from '@/lib/utils/fx'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
 import { PriceData } from '@/lib/types/portfolio'
-import { formatCurrency } from '@/lib/utils/formatters'
+import { formatCurrency, formatPerformance } from '@/lib/utils/formatters'
+import { findDrawdownPeriods } from '@/lib/utils/risk-statistics'
+import {
+  BENCHMARK_PRESETS,
+  buildBenchmarkSeries,
+  compareWithBenchmark,
+  createTokenBenchmark
+} from '@/lib/utils/benchmarks'
+import { useBenchmarkPrices } from '@/hooks/useBenchmarkPrices'
 import { getUniqueTokenIdsForPricing } from '@/lib/utils/portfolio-pricing'
 import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { DASHBOARD_ACTOR } from '@/lib/constants/portfolio-data'
 
 const BACKFILL_DELAY_MS = 10000
 const RATE_LIMIT_BACKOFF_MS = 60000
-const GRAPH_MODES = ['total', 'share', 'percent'] as const
+const GRAPH_MODES = ['total', 'share', 'percent', 'drawdown', 'benchmark'] as const
 type GraphMode = (typeof GRAPH_MODES)[number]
+// Deepest drawdowns annotated in drawdown mode
+const ANNOTATED_DRAWDOWNS = 3
+const BENCHMARK_RANGES = ['all', '1y', 'ytd', '3m'] as const
+type BenchmarkRange = (typeof BENCHMARK_RANGES)[number]
+const BENCHMARK_RANGE_LABELS: Record<BenchmarkRange, string> = { all: 'All', '1y': '1Y', ytd: 'YTD', '3m': '3M' }
 
 interface BackfillProgress {
   current: number
@@ -31,6 +60,9 @@ interface ChartRow {
   shareValue: number
   percentValue: number
   percentShare: number
+  drawdown: number             // % below the running peak of the share value (0 at a new high)
+  rebasedReturn?: number       // Benchmark mode: % change of the share value since the range start
+  benchmarkReturn?: number | null // Benchmark mode: % change of the benchmark since the range start
   isCurrentPoint?: boolean
 }
 
@@ -44,6 +76,24 @@ function calculateFundReturnPercent(
   return ((quotaValue / initialQuotaValue) - 1) * 100
 }
 
+// Fill in each row's distance from the running peak of the share value
+function withDrawdown(rows: ChartRow[]): ChartRow[] {
+  let peak = 0
+  return rows.map((row) => {
+    if (row.totalShares === 0) return { ...row, drawdown: 0 }
+    peak = Math.max(peak, row.shareValue)
+    return { ...row, drawdown: peak > 0 ? (row.shareValue / peak - 1) * 100 : 0 }
+  })
+}
+
+// First day of the comparison range; null means the whole stored history
+function getBenchmarkRangeStart(range: BenchmarkRange, today: string): string | null {
+  if (range === '1y') return format(subYears(parseISO(today), 1), 'yyyy-MM-dd')
+  if (range === 'ytd') return `${today.slice(0, 4)}-01-01`
+  if (range === '3m') return format(subMonths(parseISO(today), 3), 'yyyy-MM-dd')
+  return null
+}
+
 function getFirstTransactionDate(transactionDates: string[]): string | null {
   if (transactionDates.length === 0) return null
   return transactionDates.reduce((min, date) => (date < min ? date : min), transactionDates[0])
@@ -137,17 +187,24 @@ async function fetchPricesForDate(
 }
 
 export default function PortfolioHistorySection() {
+  const { id: portfolioId } = usePortfolioInfo()
   const { snapshot, loading: snapshotLoading, error: snapshotError } = usePortfolioData()
   const today = format(new Date(), 'yyyy-MM-dd')
   const yesterday = format(addDays(new Date(), -1), 'yyyy-MM-dd')
-  const transactions = snapshot?.transactions || []
+  const transactions = useMemo(() => sortTransactions(snapshot?.transactions || []), [snapshot])
   const tokens = snapshot?.tokens || []
   const initialQuotaValue = snapshot?.settings?.initialQuotaValue ?? 1
-  const firstTransactionDate = getFirstTransactionDate(transactions.map(tx => tx.date))
+  // portfolioDaily is stored in USD; the chart is drawn in the reporting currency
+  const { currency, converter } = useReportingCurrency()
+  const reportingInitialQuotaValue = useMemo(
+    () => convertSettings({ baselineTotalValue: 0, initialQuotaValue }, transactions, converter).initialQuotaValue,
+    [initialQuotaValue, transactions, converter]
+  )
+  const firstTransactionDate = getFirstTransactionDate(excludeVoided(transactions).map(tx => tx.date))
 
   const dailyEntries = useQuery(
     api.portfolioDaily.list,
-    firstTransactionDate ? { startDate: firstTransactionDate, endDate: today } : "skip"
+    firstTransactionDate ? { portfolioId, startDate: firstTransactionDate, endDate: today } : "skip"
   )
 
   const upsertDaily = useMutation(api.portfolioDaily.upsert)
@@ -157,6 +214,8 @@ export default function PortfolioHistorySection() {
   const [progress, setProgress] = useState<BackfillProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [graphMode, setGraphMode] = useState<GraphMode>('total')
+  const [benchmarkId, setBenchmarkId] = useState(BENCHMARK_PRESETS[0].id)
+  const [benchmarkRange, setBenchmarkRange] = useState<BenchmarkRange>('all')
   const [currentPortfolioPoint, setCurrentPortfolioPoint] = useState<{ date: string; portfolioValue: number; totalShares: number } | null>(null)
   const abortRef = useRef<AbortController | null>(null)
 
@@ -171,23 +230,27 @@ export default function PortfolioHistorySection() {
   }, [existingDates, firstTransactionDate, yesterday])
 
   const chartData = useMemo<ChartRow[]>(() => {
-    const rows = (dailyEntries || []).map((entry) => ({
-      date: entry.date,
-      portfolioValue: entry.portfolioValue,
-      totalShares: entry.totalShares,
-      shareValue: entry.totalShares === 0 ? 0 : entry.portfolioValue / entry.totalShares,
-      percentValue: 0,
-      percentShare: 0,
-    }))
+    const rows = (dailyEntries || []).map((entry) => {
+      const portfolioValue = converter.convert(entry.portfolioValue, entry.date)
+      return {
+        date: entry.date,
+        portfolioValue,
+        totalShares: entry.totalShares,
+        shareValue: entry.totalShares === 0 ? 0 : portfolioValue / entry.totalShares,
+        percentValue: 0,
+        percentShare: 0,
+        drawdown: 0,
+      }
+    })
 
     if (rows.length === 0) return rows
 
     return rows.map((row) => ({
       ...row,
-      percentValue: calculateFundReturnPercent(row.portfolioValue, row.totalShares, initialQuotaValue),
-      percentShare: calculateFundReturnPercent(row.portfolioValue, row.totalShares, initialQuotaValue),
+      percentValue: calculateFundReturnPercent(row.portfolioValue, row.totalShares, reportingInitialQuotaValue),
+      percentShare: calculateFundReturnPercent(row.portfolioValue, row.totalShares, reportingInitialQuotaValue),
     }))
-  }, [dailyEntries, initialQuotaValue])
+  }, [dailyEntries, converter, reportingInitialQuotaValue])
 
   useEffect(() => {
     if (snapshotLoading || snapshotError || !snapshot) {
@@ -199,7 +262,7 @@ export default function PortfolioHistorySection() {
 
     const loadCurrentPoint = async () => {
       try {
-        const response = await fetchPrices()
+        const response = await fetchPrices(portfolioId)
         if (!isActive) return
 
         const prices: Record<string, PriceData> = response.priceData ? { ...response.priceData } : {}
@@ -210,7 +273,7 @@ export default function PortfolioHistorySection() {
         }
 
         const fundState = processTransactions(transactions, undefined, initialQuotaValue)
-        const portfolioValue = calculatePortfolioValue(fundState, prices, tokens)
+        const portfolioValue = calculatePortfolioValue(fundState, prices, tokens, today)
 
         setCurrentPortfolioPoint({
           date: today,
@@ -230,28 +293,94 @@ export default function PortfolioHistorySection() {
     return () => {
       isActive = false
     }
-  }, [initialQuotaValue, snapshot, snapshotError, snapshotLoading, today, tokens, transactions])
+  }, [initialQuotaValue, portfolioId, snapshot, snapshotError, snapshotLoading, today, tokens, transactions])
 
   const chartDataWithCurrent = useMemo<ChartRow[]>(() => {
     if (!currentPortfolioPoint || chartData.length === 0) {
-      return chartData
+      return withDrawdown(chartData)
     }
 
-    const shareValue = currentPortfolioPoint.totalShares === 0 ? 0 : currentPortfolioPoint.portfolioValue / currentPortfolioPoint.totalShares
+    const portfolioValue = converter.convert(currentPortfolioPoint.portfolioValue, currentPortfolioPoint.date)
+    const shareValue = currentPortfolioPoint.totalShares === 0 ? 0 : portfolioValue / currentPortfolioPoint.totalShares
 
-    return [
+    return withDrawdown([
       ...chartData,
       {
         date: `${currentPortfolioPoint.date}__current`,
-        portfolioValue: currentPortfolioPoint.portfolioValue,
+        portfolioValue,
         totalShares: currentPortfolioPoint.totalShares,
         shareValue,
-        percentValue: calculateFundReturnPercent(currentPortfolioPoint.portfolioValue, currentPortfolioPoint.totalShares, initialQuotaValue),
-        percentShare: calculateFundReturnPercent(currentPortfolioPoint.portfolioValue, currentPortfolioPoint.totalShares, initialQuotaValue),
+        percentValue: calculateFundReturnPercent(portfolioValue, currentPortfolioPoint.totalShares, reportingInitialQuotaValue),
+        percentShare: calculateFundReturnPercent(portfolioValue, currentPortfolioPoint.totalShares, reportingInitialQuotaValue),
+        drawdown: 0,
         isCurrentPoint: true,
       },
-    ]
-  }, [chartData, currentPortfolioPoint, initialQuotaValue])
+    ])
+  }, [chartData, currentPortfolioPoint, converter, reportingInitialQuotaValue])
+
+  // Deepest drawdowns, dated with the chart's x values so the current point can be annotated
+  const drawdownAnnotations = useMemo(() => {
+    const xByDate = new Map(chartDataWithCurrent.map((row) => [row.date.split('__')[0], row.date]))
+    const series = chartDataWithCurrent
+      .filter((row) => row.totalShares > 0)
+      .map((row) => ({ date: row.date.split('__')[0], quotaValue: row.shareValue }))
+    const lastX = chartDataWithCurrent.length > 0 ? chartDataWithCurrent[chartDataWithCurrent.length - 1].date : ''
+
+    return findDrawdownPeriods(series)
+      .slice(0, ANNOTATED_DRAWDOWNS)
+      .filter((period) => period.depth > 0)
+      .map((period) => ({
+        ...period,
+        peakX: xByDate.get(period.peakDate) ?? period.peakDate,
+        troughX: xByDate.get(period.troughDate) ?? period.troughDate,
+        endX: period.recoveryDate ? xByDate.get(period.recoveryDate) ?? period.recoveryDate : lastX,
+      }))
+  }, [chartDataWithCurrent])
+
+  const benchmarkOptions = useMemo(
+    () => [...BENCHMARK_PRESETS, ...tokens.map(createTokenBenchmark)],
+    [tokens]
+  )
+  const benchmark = benchmarkOptions.find((option) => option.id === benchmarkId) ?? BENCHMARK_PRESETS[0]
+
+  // Share value over the comparison range, on the chart's clean dates
+  const rangeRows = useMemo(() => {
+    const rangeStart = getBenchmarkRangeStart(benchmarkRange, today)
+    return chartDataWithCurrent.filter(
+      (row) => row.totalShares > 0 && (!rangeStart || row.date.split('__')[0] >= rangeStart)
+    )
+  }, [chartDataWithCurrent, benchmarkRange, today])
+  const rangeStartDate = rangeRows.length > 0 ? rangeRows[0].date.split('__')[0] : null
+
+  const {
+    prices: benchmarkPrices,
+    isSyncing: isSyncingBenchmark,
+    error: benchmarkError,
+  } = useBenchmarkPrices(graphMode === 'benchmark' ? benchmark : null, rangeStartDate, yesterday)
+
+  // Fund and benchmark both rebased to 0% on the first day they share
+  const { benchmarkRows, benchmarkComparison } = useMemo(() => {
+    const fundSeries = rangeRows.map((row) => ({ date: row.date.split('__')[0], quotaValue: row.shareValue }))
+    const convertedPrices = benchmarkPrices.map((price) => ({
+      ...price,
+      price: converter.convert(price.price, price.date),
+    }))
+    const series = buildBenchmarkSeries(benchmark, convertedPrices, fundSeries.map((point) => point.date))
+    const benchmarkByDate = new Map(series.map((point) => [point.date, point.value]))
+    const baseRow = rangeRows.find((row) => benchmarkByDate.has(row.date.split('__')[0])) ?? rangeRows[0]
+    const rows: ChartRow[] = rangeRows
+      .filter((row) => !baseRow || row.date >= baseRow.date)
+      .map((row) => {
+        const benchmarkValue = benchmarkByDate.get(row.date.split('__')[0])
+        return {
+          ...row,
+          rebasedReturn: (row.shareValue / baseRow.shareValue - 1) * 100,
+          benchmarkReturn: benchmarkValue === undefined ? null : (benchmarkValue - 1) * 100,
+        }
+      })
+
+    return { benchmarkRows: rows, benchmarkComparison: compareWithBenchmark(fundSeries, series) }
+  }, [rangeRows, benchmarkPrices, benchmark, converter])
 
   const chartConfig = useMemo(() => {
     switch (graphMode) {
@@ -260,8 +389,24 @@ export default function PortfolioHistorySection() {
           dataKey: 'shareValue',
           label: 'Share Value',
           color: '#16A34A',
-          yFormatter: (value: number) => formatCurrency(value),
-          tooltipFormatter: (value: number) => formatCurrency(value),
+          yFormatter: (value: number) => formatCurrency(value, currency),
+          tooltipFormatter: (value: number) => formatCurrency(value, currency),
+        }
+      case 'benchmark':
+        return {
+          dataKey: 'rebasedReturn',
+          label: 'Fund',
+          color: '#7C3AED',
+          yFormatter: (value: number) => `${value.toFixed(1)}%`,
+          tooltipFormatter: (value: number) => `${value.toFixed(2)}%`,
+        }
+      case 'drawdown':
+        return {
+          dataKey: 'drawdown',
+          label: 'Drawdown',
+          color: '#EF4444',
+          yFormatter: (value: number) => `${value.toFixed(1)}%`,
+          tooltipFormatter: (value: number) => `${value.toFixed(2)}%`,
         }
       case 'percent':
         return {
@@ -277,21 +422,23 @@ export default function PortfolioHistorySection() {
           dataKey: 'portfolioValue',
           label: 'Portfolio Value',
           color: '#2563EB',
-          yFormatter: (value: number) => formatCurrency(value),
-          tooltipFormatter: (value: number) => formatCurrency(value),
+          yFormatter: (value: number) => formatCurrency(value, currency),
+          tooltipFormatter: (value: number) => formatCurrency(value, currency),
         }
     }
-  }, [graphMode])
+  }, [graphMode, currency])
 
   const baselineValue = useMemo(() => {
     if (chartData.length === 0) return 0
-    if (graphMode === 'percent') return 0
+    if (graphMode === 'percent' || graphMode === 'drawdown' || graphMode === 'benchmark') return 0
 
     const firstValue = Number(chartData[0][chartConfig.dataKey as keyof ChartRow])
     return Number.isFinite(firstValue) ? firstValue : 0
   }, [chartData, chartConfig.dataKey, graphMode])
 
   const chartSeriesData = useMemo(() => {
+    // Drawdowns never rise above the baseline: draw them as one continuous underwater series
+    const isUnderwater = graphMode === 'drawdown'
     const rowsWithSplitPoints: Array<
       ChartRow & {
         aboveValue: number | null
@@ -301,12 +448,13 @@ export default function PortfolioHistorySection() {
     > = []
 
     let previousValue: number | null = null
+    const rows = graphMode === 'benchmark' ? benchmarkRows : chartDataWithCurrent
 
-    chartDataWithCurrent.forEach((row, index) => {
+    rows.forEach((row, index) => {
       const rawValue = Number(row[chartConfig.dataKey as keyof typeof row])
       const value = Number.isFinite(rawValue) ? rawValue : 0
 
-      if (previousValue !== null) {
+      if (previousValue !== null && !isUnderwater) {
         const previousDelta = previousValue - baselineValue
         const currentDelta = value - baselineValue
         const crossedBaseline =
@@ -327,15 +475,15 @@ export default function PortfolioHistorySection() {
       rowsWithSplitPoints.push({
         ...row,
         displayDate: row.date.split('__')[0],
-        aboveValue: value >= baselineValue ? value : null,
-        belowValue: value < baselineValue ? value : null,
+        aboveValue: !isUnderwater && value >= baselineValue ? value : null,
+        belowValue: isUnderwater || value < baselineValue ? value : null,
       })
 
       previousValue = value
     })
 
     return rowsWithSplitPoints
-  }, [baselineValue, chartConfig.dataKey, chartDataWithCurrent])
+  }, [baselineValue, chartConfig.dataKey, chartDataWithCurrent, benchmarkRows, graphMode])
 
   const handleBackfill = async () => {
     if (snapshotLoading || snapshotError || isBackfilling || missingDates.length === 0 || !firstTransactionDate) return
@@ -392,7 +540,7 @@ export default function PortfolioHistorySection() {
         })
 
         const fundState = processTransactions(transactions, date, initialQuotaValue)
-        const portfolioValue = calculatePortfolioValue(fundState, prices, tokens)
+        const portfolioValue = calculatePortfolioValue(fundState, prices, tokens, date)
 
         setProgress({
           current: i + 1,
@@ -402,6 +550,8 @@ export default function PortfolioHistorySection() {
         })
 
         await upsertDaily({
+          portfolioId,
+          actor: DASHBOARD_ACTOR,
           date,
           portfolioValue,
           totalShares: fundState.totalShares,
@@ -451,6 +601,11 @@ export default function PortfolioHistorySection() {
         <div style={{ color: value >= baselineValue ? '#16A34A' : '#EF4444' }}>
           {chartConfig.label}: {chartConfig.tooltipFormatter(value)}
         </div>
+        {graphMode === 'benchmark' && row.benchmarkReturn !== null && row.benchmarkReturn !== undefined && (
+          <div className="text-amber-600">
+            {benchmark.label}: {chartConfig.tooltipFormatter(row.benchmarkReturn)}
+          </div>
+        )}
       </div>
     )
   }
@@ -480,6 +635,8 @@ export default function PortfolioHistorySection() {
                 {mode === 'total' && 'Total Value'}
                 {mode === 'share' && 'Share Value'}
                 {mode === 'percent' && '% Change'}
+                {mode === 'drawdown' && 'Drawdown'}
+                {mode === 'benchmark' && 'vs Benchmark'}
               </button>
             ))}
           </div>
@@ -540,6 +697,37 @@ export default function PortfolioHistorySection() {
           </div>
         )}
 
+        {graphMode === 'benchmark' && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={benchmark.id}
+              onChange={(event) => setBenchmarkId(event.target.value)}
+              className="rounded-lg border border-gray-200 px-2 py-1.5 text-sm text-gray-700"
+            >
+              {benchmarkOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1">
+              {BENCHMARK_RANGES.map((range) => (
+                <button
+                  key={range}
+                  onClick={() => setBenchmarkRange(range)}
+                  className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                    benchmarkRange === range ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {BENCHMARK_RANGE_LABELS[range]}
+                </button>
+              ))}
+            </div>
+            {isSyncingBenchmark && <span className="text-xs text-gray-500">Fetching {benchmark.label} prices…</span>}
+            {benchmarkError && <span className="text-xs text-red-600">{benchmarkError}</span>}
+          </div>
+        )}
+
         <div className="h-72">
           {chartSeriesData.length === 0 ? (
             <div className="h-full flex items-center justify-center text-sm text-gray-500">
@@ -584,6 +772,29 @@ export default function PortfolioHistorySection() {
                   strokeDasharray="3 3"
                   ifOverflow="extendDomain"
                 />
+                {graphMode === 'drawdown' &&
+                  drawdownAnnotations.map((period) => (
+                    <ReferenceArea
+                      key={`area-${period.peakDate}`}
+                      x1={period.peakX}
+                      x2={period.endX}
+                      fill="#FEE2E2"
+                      fillOpacity={0.5}
+                      ifOverflow="hidden"
+                    />
+                  ))}
+                {graphMode === 'drawdown' &&
+                  drawdownAnnotations.map((period) => (
+                    <ReferenceDot
+                      key={`trough-${period.troughDate}`}
+                      x={period.troughX}
+                      y={-period.depth * 100}
+                      r={3}
+                      fill="#B91C1C"
+                      stroke="none"
+                      label={{ value: `-${(period.depth * 100).toFixed(1)}%`, position: 'bottom', fontSize: 11, fill: '#B91C1C' }}
+                    />
+                  ))}
                 <Tooltip
                   content={renderTooltipContent}
                 />
@@ -623,10 +834,100 @@ export default function PortfolioHistorySection() {
                   connectNulls={false}
                   isAnimationActive={false}
                 />
+                {graphMode === 'benchmark' && (
+                  <Line
+                    type="monotone"
+                    dataKey="benchmarkReturn"
+                    stroke="#F59E0B"
+                    strokeWidth={2}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
               </ComposedChart>
             </ResponsiveContainer>
           )}
         </div>
+
+        {graphMode === 'benchmark' && benchmarkComparison && (
+          <div className="grid grid-cols-2 gap-x-6 gap-y-3 rounded-lg border border-slate-200 px-4 py-3 sm:grid-cols-5">
+            <div>
+              <p className="text-xs text-slate-500">Fund</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatPerformance(benchmarkComparison.fundReturn * 100)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">{benchmark.label}</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatPerformance(benchmarkComparison.benchmarkReturn * 100)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Excess Return</p>
+              <p
+                className={`mt-0.5 text-sm font-semibold tabular-nums ${
+                  benchmarkComparison.excessReturn >= 0 ? 'text-emerald-700' : 'text-rose-700'
+                }`}
+              >
+                {formatPerformance(benchmarkComparison.excessReturn * 100)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Alpha</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {benchmarkComparison.alpha === null ? '-' : formatPerformance(benchmarkComparison.alpha * 100)}
+              </p>
+              <p className="text-[11px] text-slate-500">annualized</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Beta</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {benchmarkComparison.beta === null ? '-' : benchmarkComparison.beta.toFixed(2)}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">
+                {benchmarkComparison.startDate} to {benchmarkComparison.endDate}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {graphMode === 'drawdown' && drawdownAnnotations.length > 0 && (
+          <div className="overflow-hidden rounded-xl border border-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-xs">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                  <th className="px-2 py-1.5 text-right">Depth</th>
+                  <th className="whitespace-nowrap px-2 py-1.5">Peak</th>
+                  <th className="whitespace-nowrap px-2 py-1.5">Trough</th>
+                  <th className="whitespace-nowrap px-2 py-1.5">Recovery</th>
+                  <th className="whitespace-nowrap px-2 py-1.5 text-right">Trough to recovery</th>
+                  <th className="whitespace-nowrap px-2 py-1.5 text-right">Under water</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {drawdownAnnotations.map((period) => (
+                  <tr key={period.peakDate} className="hover:bg-slate-50/80">
+                    <td className="px-2 py-1.5 text-right font-medium tabular-nums text-rose-700">
+                      -{(period.depth * 100).toFixed(1)}%
+                    </td>
+                    <td className="px-2 py-1.5 tabular-nums text-slate-700">{period.peakDate}</td>
+                    <td className="px-2 py-1.5 tabular-nums text-slate-700">{period.troughDate}</td>
+                    <td className="px-2 py-1.5 tabular-nums text-slate-700">{period.recoveryDate ?? 'Not yet'}</td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {period.recoveryDays !== null ? `${period.recoveryDays} days` : '-'}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {period.durationDays} days{period.recoveryDate ? '' : ' so far'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </section>
   )
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { usePortfolio } from '@/hooks/usePortfolio'
 import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
 import {
@@ -11,10 +11,12 @@ import {
   formatFDV,
   formatPerformance,
   formatPortfolioPercentage,
+  formatDrift,
 } from '@/lib/utils/formatters'
-import { aggregateBitcoinEthereumCategories } from '@/lib/utils/calculations'
-import { CATEGORY_NAMES, CATEGORY_COLORS } from '@/lib/constants/portfolio-data'
-import { PortfolioItem } from '@/lib/types/portfolio'
+import { aggregateCategoryItems, isCashItem } from '@/lib/utils/calculations'
+import { createCategoryLookup } from '@/lib/utils/categories'
+import { calculateAllocationDrift } from '@/lib/utils/rebalancing'
+import { CategoryDefinition, PortfolioItem } from '@/lib/types/portfolio'
 
 function calculatePerformanceUSD(item: PortfolioItem): number {
   return item.currentValue - item.costBasis
@@ -27,8 +29,8 @@ function calculate24hChangeUSD(item: PortfolioItem): number {
   return item.currentValue - value24hAgo
 }
 
-function formatUSDChange(value: number): string {
-  const formatted = formatCurrency(Math.abs(value))
+function formatUSDChange(value: number, currency: string): string {
+  const formatted = formatCurrency(Math.abs(value), currency)
   return `${value >= 0 ? '+' : '-'}${formatted}`
 }
 
@@ -36,6 +38,20 @@ function getTokenLabel(item: PortfolioItem): string {
   return item.token.name.replace(/\s*\(Aggregated\)\s*$/i, '').trim() || item.token.symbol
 }
 
+function CategoryBadge({ category, muted = false }: { category: CategoryDefinition; muted?: boolean }) {
+  return (
+    <span
+      className="inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium"
+      style={{
+        backgroundColor: `${category.color}${muted ? '0C' : '18'}`,
+        color: category.color,
+      }}
+    >
+      {category.name}
+    </span>
+  )
+}
+
 function signedTone(value: number): string {
   if (value > 0) return 'text-emerald-700'
   if (value < 0) return 'text-rose-700'
@@ -69,7 +85,17 @@ function FilterToggle({
 
 export default function PortfolioTable() {
   const { selectedDate } = usePortfolioDate()
-  const { portfolioItems, loading, error, refreshData } = usePortfolio({ selectedDate })
+  const {
+    portfolioItems,
+    categoryDefinitions,
+    tokens,
+    exitedPositions,
+    loading,
+    error,
+    refreshData,
+    lotMatchingMethod,
+    currency,
+  } = usePortfolio({ selectedDate })
   const [sortField, setSortField] = useState<
     'currentValue' | 'performance' | 'percentage' | 'change24h'
   >('currentValue')
@@ -77,6 +103,7 @@ export default function PortfolioTable() {
   const [aggregateCategories, setAggregateCategories] = useState(true)
   const [showUSDValues, setShowUSDValues] = useState(false)
   const [hideSmallBalances, setHideSmallBalances] = useState(true)
+  const getCategory = useMemo(() => createCategoryLookup(categoryDefinitions), [categoryDefinitions])
 
   if (loading) {
     return (
@@ -112,7 +139,7 @@ export default function PortfolioTable() {
   }
 
   const displayItems = aggregateCategories
-    ? aggregateBitcoinEthereumCategories(portfolioItems)
+    ? aggregateCategoryItems(portfolioItems, categoryDefinitions)
     : portfolioItems
 
   const visibleItems = hideSmallBalances
@@ -143,14 +170,21 @@ export default function PortfolioTable() {
     )
   }
 
+  // Token targets are shares of the whole portfolio, so drift comes from the unfiltered items
+  const tokenDrifts = new Map(
+    calculateAllocationDrift(portfolioItems, tokens, []).map((drift) => [drift.id, drift])
+  )
+  const showTargets = tokenDrifts.size > 0
+
   const totalValue = visibleItems.reduce((sum, item) => sum + item.currentValue, 0)
-  const categoryCount = new Set(visibleItems.map((item) => item.token.category)).size
+  const tokenItems = visibleItems.filter((item) => !isCashItem(item))
+  const categoryCount = new Set(tokenItems.map((item) => item.token.category)).size
   const avgPerformance =
-    visibleItems.length > 0
+    tokenItems.length > 0
       ? showUSDValues
-        ? visibleItems.reduce((sum, item) => sum + calculatePerformanceUSD(item), 0) /
-          visibleItems.length
-        : visibleItems.reduce((sum, item) => sum + item.performance, 0) / visibleItems.length
+        ? tokenItems.reduce((sum, item) => sum + calculatePerformanceUSD(item), 0) /
+          tokenItems.length
+        : tokenItems.reduce((sum, item) => sum + item.performance, 0) / tokenItems.length
       : null
 
   return (
@@ -158,7 +192,10 @@ export default function PortfolioTable() {
       <div className="mb-5 flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
         <div>
           <h2 className="text-xl font-semibold text-gray-900">Portfolio Overview</h2>
-          <p className="mt-1 text-sm text-slate-500">Holdings, performance, and allocation by token</p>
+          <p className="mt-1 text-sm text-slate-500">
+            Holdings, performance, and allocation by token · Cost basis:{' '}
+            {lotMatchingMethod === 'AVERAGE' ? 'average cost' : lotMatchingMethod}
+          </p>
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
@@ -170,7 +207,7 @@ export default function PortfolioTable() {
             <FilterToggle
               checked={showUSDValues}
               onChange={setShowUSDValues}
-              label="USD Values"
+              label={`${currency} Values`}
             />
             <FilterToggle
               checked={hideSmallBalances}
@@ -180,7 +217,7 @@ export default function PortfolioTable() {
             <FilterToggle
               checked={aggregateCategories}
               onChange={setAggregateCategories}
-              label="Aggregate BTC/ETH"
+              label="Aggregate categories"
             />
           </div>
           <button
@@ -205,14 +242,15 @@ export default function PortfolioTable() {
                   className="cursor-pointer whitespace-nowrap px-2 py-1.5 text-right hover:bg-slate-100"
                   onClick={() => handleSort('performance')}
                 >
-                  Perf. {showUSDValues ? 'USD' : '%'}
+                  Perf. {showUSDValues ? currency : '%'}
                   <SortIcon field="performance" />
                 </th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Realized</th>
                 <th
                   className="cursor-pointer whitespace-nowrap px-2 py-1.5 text-right hover:bg-slate-100"
                   onClick={() => handleSort('change24h')}
                 >
-                  24h {showUSDValues ? 'USD' : '%'}
+                  24h {showUSDValues ? currency : '%'}
                   <SortIcon field="change24h" />
                 </th>
                 <th
@@ -229,11 +267,13 @@ export default function PortfolioTable() {
                   Alloc.
                   <SortIcon field="percentage" />
                 </th>
+                {showTargets && <th className="whitespace-nowrap px-2 py-1.5 text-right">Target</th>}
                 <th className="whitespace-nowrap px-2 py-1.5 text-right">Price</th>
                 <th className="whitespace-nowrap px-2 py-1.5 text-right">Mkt Cap</th>
                 <th className="whitespace-nowrap px-2 py-1.5 text-right">FDV</th>
                 <th className="whitespace-nowrap px-2 py-1.5 text-right">Amount</th>
                 <th className="whitespace-nowrap px-2 py-1.5 text-right">Cost Basis</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Income</th>
                 <th className="whitespace-nowrap px-2 py-1.5">Category</th>
               </tr>
             </thead>
@@ -243,8 +283,7 @@ export default function PortfolioTable() {
                 const change24hUSD = calculate24hChangeUSD(item)
                 const performanceValue = showUSDValues ? performanceUSD : item.performance
                 const change24hValue = showUSDValues ? change24hUSD : (item.change24h ?? 0)
-                const categoryColor =
-                  CATEGORY_COLORS[item.token.category] || '#64748B'
+                const drift = item.token.targetWeight !== undefined ? tokenDrifts.get(item.token.symbol) : undefined
 
                 return (
                   <tr
@@ -261,14 +300,19 @@ export default function PortfolioTable() {
                       className={`px-2 py-1.5 text-right tabular-nums ${signedTone(performanceValue)}`}
                     >
                       {showUSDValues
-                        ? formatUSDChange(performanceUSD)
+                        ? formatUSDChange(performanceUSD, currency)
                         : formatPerformance(item.performance)}
                     </td>
+                    <td
+                      className={`px-2 py-1.5 text-right tabular-nums ${signedTone(item.realizedPnl ?? 0)}`}
+                    >
+                      {item.realizedPnl ? formatUSDChange(item.realizedPnl, currency) : '-'}
+                    </td>
                     <td className="px-2 py-1.5 text-right tabular-nums">
                       {item.change24h !== undefined ? (
                         <span className={signedTone(change24hValue)}>
                           {showUSDValues
-                            ? formatUSDChange(change24hUSD)
+                            ? formatUSDChange(change24hUSD, currency)
                             : formatPerformance(item.change24h)}
                         </span>
                       ) : (
@@ -276,19 +320,36 @@ export default function PortfolioTable() {
                       )}
                     </td>
                     <td className="px-2 py-1.5 text-right font-medium tabular-nums text-slate-900">
-                      {formatCurrency(item.currentValue)}
+                      {formatCurrency(item.currentValue, currency)}
                     </td>
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
                       {formatPortfolioPercentage(item.percentage)}
                     </td>
+                    {showTargets && (
+                      <td className="whitespace-nowrap px-2 py-1.5 text-right tabular-nums text-slate-700">
+                        {drift ? (
+                          <>
+                            {formatPortfolioPercentage(drift.targetWeight * 100)}{' '}
+                            <span
+                              className={drift.outOfBand ? 'font-medium text-amber-700' : 'text-slate-400'}
+                              title={`Tolerance ±${(drift.tolerance * 100).toFixed(1)} pts`}
+                            >
+                              {formatDrift(drift.drift)}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-slate-400">-</span>
+                        )}
+                      </td>
+                    )}
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
-                      {formatPrice(item.currentPrice)}
+                      {formatPrice(item.currentPrice, currency)}
                     </td>
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
-                      {formatMarketCap(item.marketCap)}
+                      {formatMarketCap(item.marketCap, currency)}
                     </td>
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
-                      {formatFDV(item.fdv)}
+                      {formatFDV(item.fdv, currency)}
                     </td>
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
                       {item.amount === 0
@@ -296,18 +357,18 @@ export default function PortfolioTable() {
                         : formatTokenAmount(item.amount, item.token.symbol)}
                     </td>
                     <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
-                      {formatCurrency(item.costBasis)}
+                      {formatCurrency(item.costBasis, currency)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                      {item.income ? formatCurrency(item.income, currency) : '-'}
                     </td>
                     <td className="px-2 py-1.5">
-                      <span
-                        className="inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium"
-                        style={{
-                          backgroundColor: `${categoryColor}18`,
-                          color: categoryColor,
-                        }}
-                      >
-                        {CATEGORY_NAMES[item.token.category] || item.token.category}
-                      </span>
+                      <div className="flex flex-wrap gap-1">
+                        <CategoryBadge category={getCategory(item.token.category)} />
+                        {item.token.tags
+                          ?.filter((tag) => tag !== item.token.category)
+                          .map((tag) => <CategoryBadge key={tag} category={getCategory(tag)} muted />)}
+                      </div>
                     </td>
                   </tr>
                 )
@@ -317,17 +378,38 @@ export default function PortfolioTable() {
         </div>
       </div>
 
+      {exitedPositions.length > 0 && (
+        <div className="mt-4 rounded-lg border border-slate-200 px-4 py-3">
+          <p className="mb-2 text-xs font-medium uppercase tracking-wide text-slate-500">
+            Exited positions (realized P&L)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {exitedPositions.map((position) => (
+              <span
+                key={position.symbol}
+                className="inline-flex items-center gap-1.5 rounded bg-slate-50 px-2 py-1 text-xs"
+              >
+                <span className="font-medium text-slate-800">{position.symbol}</span>
+                <span className={`tabular-nums ${signedTone(position.realizedPnl)}`}>
+                  {formatUSDChange(position.realizedPnl, currency)}
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
           <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Tokens</p>
           <p className="mt-1 text-lg font-semibold tabular-nums text-slate-900">
-            {visibleItems.length}
+            {tokenItems.length}
           </p>
         </div>
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
           <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Total Value</p>
           <p className="mt-1 text-lg font-semibold tabular-nums text-slate-900">
-            {formatCurrency(totalValue)}
+            {formatCurrency(totalValue, currency)}
           </p>
         </div>
         <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
@@ -346,7 +428,7 @@ export default function PortfolioTable() {
             {avgPerformance === null
               ? '-'
               : showUSDValues
-                ? formatUSDChange(avgPerformance)
+                ? formatUSDChange(avgPerformance, currency)
                 : formatPerformance(avgPerformance)}
           </p>
         </div>
@@ -0,0 +1,150 @@
+'use client'
+
+import { useMemo } from 'react'
+import { usePortfolio } from '@/hooks/usePortfolio'
+import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { createCategoryLookup } from '@/lib/utils/categories'
+import { planRebalance } from '@/lib/utils/rebalancing'
+import { convertPrices } from '@/lib/utils/fx'
+import {
+  formatCurrency,
+  formatDrift,
+  formatPortfolioPercentage,
+  formatPrice,
+  formatTokenAmount,
+} from '@/lib/utils/formatters'
+
+export default function RebalancePlan() {
+  const { selectedDate } = usePortfolioDate()
+  const { portfolioItems, tokens, categoryDefinitions, historicalPrices, fxRate, loading, error, currency } =
+    usePortfolio({ selectedDate })
+
+  const getCategory = useMemo(() => createCategoryLookup(categoryDefinitions), [categoryDefinitions])
+  const plan = useMemo(
+    () =>
+      planRebalance(
+        portfolioItems,
+        tokens,
+        categoryDefinitions,
+        convertPrices(historicalPrices, fxRate),
+        selectedDate || undefined
+      ),
+    [portfolioItems, tokens, categoryDefinitions, historicalPrices, fxRate, selectedDate]
+  )
+
+  if (loading || error || plan.drifts.length === 0) return null
+
+  return (
+    <div className="card">
+      <div className="mb-5">
+        <h2 className="text-xl font-semibold text-gray-900">Rebalancing</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Drift from target weights, and the trades that bring out-of-band positions back
+          {selectedDate ? ` (prices of ${selectedDate})` : ''}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="min-w-full divide-y divide-slate-200 text-xs">
+            <thead className="bg-slate-50">
+              <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                <th className="px-2 py-1.5">Target</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Actual</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Target</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Drift</th>
+                <th className="whitespace-nowrap px-2 py-1.5 text-right">Band</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 bg-white">
+              {plan.drifts.map((drift) => (
+                <tr key={`${drift.scope}-${drift.id}`} className="hover:bg-slate-50/80">
+                  <td className="px-2 py-1.5">
+                    <span className="font-medium text-slate-900">
+                      {drift.scope === 'category' ? getCategory(drift.id).name : drift.id}
+                    </span>
+                    <span className="ml-1 text-[10px] uppercase text-slate-400">{drift.scope}</span>
+                  </td>
+                  <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                    {formatPortfolioPercentage(drift.actualWeight * 100)}
+                  </td>
+                  <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                    {formatPortfolioPercentage(drift.targetWeight * 100)}
+                  </td>
+                  <td
+                    className={`px-2 py-1.5 text-right tabular-nums ${
+                      drift.outOfBand ? 'font-medium text-amber-700' : 'text-slate-500'
+                    }`}
+                  >
+                    {formatDrift(drift.drift)}
+                  </td>
+                  <td className="px-2 py-1.5 text-right tabular-nums text-slate-500">
+                    ±{(drift.tolerance * 100).toFixed(1)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          {plan.trades.length === 0 ? (
+            <div className="rounded-xl border border-slate-200 px-4 py-3 text-sm text-slate-500">
+              Everything is within its tolerance band. No trades needed.
+            </div>
+          ) : (
+            <div className="overflow-hidden rounded-xl border border-slate-200">
+              <table className="min-w-full divide-y divide-slate-200 text-xs">
+                <thead className="bg-slate-50">
+                  <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                    <th className="px-2 py-1.5">Trade</th>
+                    <th className="whitespace-nowrap px-2 py-1.5 text-right">Amount</th>
+                    <th className="whitespace-nowrap px-2 py-1.5 text-right">Price</th>
+                    <th className="whitespace-nowrap px-2 py-1.5 text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 bg-white">
+                  {plan.trades.map((trade) => (
+                    <tr key={`${trade.type}-${trade.symbol}`} className="hover:bg-slate-50/80">
+                      <td className="px-2 py-1.5">
+                        <span
+                          className={`font-medium ${trade.type === 'BUY' ? 'text-emerald-700' : 'text-rose-700'}`}
+                        >
+                          {trade.type}
+                        </span>{' '}
+                        <span className="text-slate-900">{trade.symbol}</span>
+                      </td>
+                      <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                        {formatTokenAmount(trade.amount, trade.symbol)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right tabular-nums text-slate-700">
+                        {formatPrice(trade.price, currency)}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-medium tabular-nums text-slate-900">
+                        {formatCurrency(trade.value, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-500">
+            <span>
+              Cash before: <span className="tabular-nums text-slate-700">{formatCurrency(plan.cashBefore, currency)}</span>
+            </span>
+            <span>
+              Cash after: <span className="tabular-nums text-slate-700">{formatCurrency(plan.cashAfter, currency)}</span>
+            </span>
+            {plan.unfundedValue > 0 && (
+              <span className="text-amber-700">
+                {formatCurrency(plan.unfundedValue, currency)} of buys left out: not enough cash
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
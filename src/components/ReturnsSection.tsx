@@ -0,0 +1,195 @@
+'use client'
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { usePortfolio } from '@/hooks/usePortfolio'
+import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { NavPoint, ReturnPeriod } from '@/lib/types/portfolio'
+import { formatPerformance } from '@/lib/utils/formatters'
+import { calculateMonthlyReturns, calculateTrailingReturns, MONTH_LABELS } from '@/lib/utils/returns'
+import { toQuotaSeries } from '@/lib/utils/risk-statistics'
+
+const PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  MTD: 'Month to date',
+  QTD: 'Quarter to date',
+  YTD: 'Year to date',
+  '1M': '1 month',
+  '3M': '3 months',
+  '6M': '6 months',
+  '1Y': '1 year',
+  ITD: 'Since inception',
+}
+
+// Heatmap shade by the size of the monthly move
+function getHeatmapClass(value: number | null): string {
+  if (value === null) return 'bg-white text-slate-300'
+  const magnitude = Math.abs(value)
+  if (value >= 0) {
+    if (magnitude >= 0.1) return 'bg-emerald-500 text-white'
+    if (magnitude >= 0.05) return 'bg-emerald-300 text-emerald-950'
+    if (magnitude >= 0.02) return 'bg-emerald-200 text-emerald-900'
+    return 'bg-emerald-50 text-emerald-800'
+  }
+  if (magnitude >= 0.1) return 'bg-rose-500 text-white'
+  if (magnitude >= 0.05) return 'bg-rose-300 text-rose-950'
+  if (magnitude >= 0.02) return 'bg-rose-200 text-rose-900'
+  return 'bg-rose-50 text-rose-800'
+}
+
+function formatReturn(value: number | null): string {
+  return value === null ? '' : formatPerformance(value * 100)
+}
+
+export default function ReturnsSection() {
+  const { id: portfolioId } = usePortfolioInfo()
+  const { selectedDate } = usePortfolioDate()
+  const { summary, loading } = usePortfolio({ selectedDate })
+  const { converter } = useReportingCurrency()
+  const endDate = selectedDate || format(new Date(), 'yyyy-MM-dd')
+
+  const dailyEntries = useQuery(api.portfolioDaily.list, { portfolioId, endDate })
+
+  // Stored NAV in the reporting currency, plus the live point for the end date
+  const returns = useMemo(() => {
+    if (!dailyEntries || !summary) return null
+
+    const navPoints: NavPoint[] = dailyEntries
+      .filter((entry) => entry.date < endDate)
+      .map((entry) => ({
+        date: entry.date,
+        portfolioValue: converter.convert(entry.portfolioValue, entry.date),
+        totalShares: entry.totalShares,
+      }))
+    navPoints.push({ date: endDate, portfolioValue: summary.totalValue, totalShares: summary.totalShares })
+
+    const series = toQuotaSeries(navPoints)
+    return {
+      periods: calculateTrailingReturns(series, summary.initialQuotaValue),
+      monthly: calculateMonthlyReturns(series, summary.initialQuotaValue),
+    }
+  }, [dailyEntries, summary, endDate, converter])
+
+  if (loading || dailyEntries === undefined) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 w-1/3 rounded bg-gray-200" />
+          <div className="h-16 rounded-lg bg-gray-200" />
+          <div className="h-40 rounded-lg bg-gray-200" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="mb-5">
+        <h2 className="text-xl font-semibold text-gray-900">Returns</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Quota returns to {endDate}, from the closing quota of the day before each period starts
+        </p>
+      </div>
+
+      {!returns || returns.periods.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No quota history yet. Backfill the portfolio history first.
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  {returns.periods.map((period) => (
+                    <th
+                      key={period.period}
+                      title={PERIOD_LABELS[period.period]}
+                      className="px-3 py-2 text-right text-[10px] font-semibold uppercase tracking-wide text-slate-500"
+                    >
+                      {period.period}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {returns.periods.map((period) => (
+                    <td
+                      key={period.period}
+                      title={`${period.startDate} to ${period.endDate}`}
+                      className={`px-3 py-2 text-right font-semibold tabular-nums ${
+                        period.return >= 0 ? 'text-emerald-700' : 'text-rose-700'
+                      }`}
+                    >
+                      {formatReturn(period.return)}
+                      {period.sinceInception && period.period !== 'ITD' && (
+                        <span className="ml-0.5 text-[10px] font-normal text-slate-400">*</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {returns.periods.some((period) => period.sinceInception && period.period !== 'ITD') && (
+            <p className="mt-2 text-[11px] text-slate-500">
+              * Period starts before the fund&apos;s first recorded quota, so it runs from inception.
+            </p>
+          )}
+
+          <h3 className="mt-6 mb-2 text-sm font-semibold text-slate-700">Monthly returns</h3>
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-2 py-2 text-left text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    Year
+                  </th>
+                  {MONTH_LABELS.map((label) => (
+                    <th
+                      key={label}
+                      className="px-2 py-2 text-center text-[10px] font-semibold uppercase tracking-wide text-slate-500"
+                    >
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 text-center text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white">
+                {returns.monthly.map((row) => (
+                  <tr key={row.year}>
+                    <td className="px-2 py-1.5 font-medium tabular-nums text-slate-700">{row.year}</td>
+                    {row.months.map((value, index) => (
+                      <td
+                        key={MONTH_LABELS[index]}
+                        className={`px-2 py-1.5 text-center tabular-nums ${getHeatmapClass(value)}`}
+                      >
+                        {formatReturn(value)}
+                      </td>
+                    ))}
+                    <td
+                      className={`border-l border-white px-2 py-1.5 text-center font-semibold tabular-nums ${getHeatmapClass(row.total)}`}
+                    >
+                      {formatReturn(row.total)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-[11px] text-slate-500">
+            Each month runs from the previous month-end quota; the fund&apos;s first month runs from the initial quota.
+            Years compound their months. The current month and year are to date.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
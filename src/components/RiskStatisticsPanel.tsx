@@ -0,0 +1,181 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { usePortfolio } from '@/hooks/usePortfolio'
+import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { NavPoint } from '@/lib/types/portfolio'
+import { formatPerformance } from '@/lib/utils/formatters'
+import { applyLookback, calculateRiskStatistics, toQuotaSeries } from '@/lib/utils/risk-statistics'
+
+const LOOKBACK_WINDOWS: { days: number | null; label: string }[] = [
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' },
+  { days: 3 * 365, label: '3Y' },
+  { days: null, label: 'All' },
+]
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(2)}%`
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2)
+}
+
+export default function RiskStatisticsPanel() {
+  const { id: portfolioId } = usePortfolioInfo()
+  const { selectedDate } = usePortfolioDate()
+  const { summary, loading } = usePortfolio({ selectedDate })
+  const { converter } = useReportingCurrency()
+  const [lookbackDays, setLookbackDays] = useState<number | null>(365)
+  const endDate = selectedDate || format(new Date(), 'yyyy-MM-dd')
+
+  const dailyEntries = useQuery(api.portfolioDaily.list, { portfolioId, endDate })
+
+  // Stored NAV in the reporting currency, plus the live point for the end date
+  const stats = useMemo(() => {
+    if (!dailyEntries) return null
+
+    const navPoints: NavPoint[] = dailyEntries
+      .filter((entry) => entry.date < endDate)
+      .map((entry) => ({
+        date: entry.date,
+        portfolioValue: converter.convert(entry.portfolioValue, entry.date),
+        totalShares: entry.totalShares,
+      }))
+    if (summary) {
+      navPoints.push({ date: endDate, portfolioValue: summary.totalValue, totalShares: summary.totalShares })
+    }
+
+    return calculateRiskStatistics(applyLookback(toQuotaSeries(navPoints), lookbackDays ?? undefined))
+  }, [dailyEntries, summary, endDate, converter, lookbackDays])
+
+  if (loading || dailyEntries === undefined) {
+    return (
+      <div className="card">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 w-1/3 rounded bg-gray-200" />
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <div className="h-16 rounded-lg bg-gray-200" />
+            <div className="h-16 rounded-lg bg-gray-200" />
+            <div className="h-16 rounded-lg bg-gray-200" />
+            <div className="h-16 rounded-lg bg-gray-200" />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const maxDrawdown = stats?.maxDrawdown ?? null
+
+  return (
+    <div className="card">
+      <div className="mb-5 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Risk</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            {stats
+              ? `Daily quota returns from ${stats.startDate} to ${stats.endDate} (${stats.observations} observations)`
+              : 'Daily quota returns from the stored portfolio history'}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {LOOKBACK_WINDOWS.map((option) => (
+            <button
+              key={option.label}
+              type="button"
+              onClick={() => setLookbackDays(option.days)}
+              className={`rounded-md px-2 py-1 text-xs font-medium transition-colors ${
+                lookbackDays === option.days ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!stats ? (
+        <div className="text-sm text-gray-500">
+          Not enough daily history in this window. Backfill the portfolio history first.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Volatility</p>
+              <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">{formatRate(stats.volatility)}</p>
+              <p className="text-[11px] text-slate-500">annualized</p>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Sharpe</p>
+              <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">{formatRatio(stats.sharpeRatio)}</p>
+              <p className="text-[11px] text-slate-500">Sortino {formatRatio(stats.sortinoRatio)}</p>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">Max Drawdown</p>
+              <p className="mt-1 text-xl font-semibold tabular-nums text-rose-700">
+                {maxDrawdown ? `-${formatRate(maxDrawdown.depth)}` : '-'}
+              </p>
+              <p className="text-[11px] text-slate-500">
+                Current {stats.currentDrawdown > 0 ? `-${formatRate(stats.currentDrawdown)}` : 'at peak'}
+              </p>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50/70 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                VaR {Math.round(stats.confidence * 100)}%
+              </p>
+              <p className="mt-1 text-xl font-semibold tabular-nums text-slate-900">{formatRate(stats.valueAtRisk)}</p>
+              <p className="text-[11px] text-slate-500">CVaR {formatRate(stats.conditionalValueAtRisk)} (1 day)</p>
+            </div>
+          </div>
+
+          <div className="mt-5 grid grid-cols-2 gap-x-6 gap-y-3 rounded-lg border border-slate-200 px-4 py-3 sm:grid-cols-4">
+            <div>
+              <p className="text-xs text-slate-500">Return</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {formatPerformance(stats.totalReturn * 100)}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">
+                {formatPerformance(stats.annualizedReturn * 100)} annualized
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Drawdown Peak / Trough</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {maxDrawdown ? maxDrawdown.peakDate : '-'}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">{maxDrawdown ? maxDrawdown.troughDate : ''}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Recovered</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {maxDrawdown ? maxDrawdown.recoveryDate ?? 'Not yet' : '-'}
+              </p>
+              <p className="text-[11px] tabular-nums text-slate-500">
+                {maxDrawdown ? `${maxDrawdown.durationDays} days under water` : ''}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-500">Longest Drawdown</p>
+              <p className="mt-0.5 text-sm font-semibold tabular-nums text-slate-900">
+                {stats.longestDrawdownDays} days
+              </p>
+            </div>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500">
+            Volatility and ratios annualize daily returns over 365 days, with a {formatRate(stats.riskFreeRate)}{' '}
+            risk-free rate. VaR and CVaR are historical one-day losses.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
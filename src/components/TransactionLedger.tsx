@@ -0,0 +1,139 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useMutation } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Transaction } from '@/lib/types/portfolio'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { sortTransactions } from '@/lib/utils/transaction-order'
+import { formatCurrency } from '@/lib/utils/formatters'
+import { DASHBOARD_ACTOR } from '@/lib/constants/portfolio-data'
+
+function describeAsset(tx: Transaction): string {
+  if (tx.type === 'SWAP') return `${tx.fromSymbol ?? '?'} → ${tx.toSymbol ?? '?'}`
+  return tx.tokenSymbol || tx.currency || 'USD'
+}
+
+export default function TransactionLedger() {
+  const { id: portfolioId } = usePortfolioInfo()
+  const { snapshot, loading } = usePortfolioData()
+  const deleteTransaction = useMutation(api.portfolioData.deleteTransaction)
+  const voidTransaction = useMutation(api.portfolioData.voidTransaction)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Newest first
+  const transactions = useMemo(
+    () => sortTransactions(snapshot?.transactions || []).reverse(),
+    [snapshot]
+  )
+
+  const runAction = async (transactionId: string, action: () => Promise<unknown>) => {
+    setPendingId(transactionId)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to update ${transactionId}`)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleVoid = (tx: Transaction) => {
+    const reason = window.prompt(`Void ${tx.id}? It stays in the ledger but no longer counts. Reason:`)
+    if (reason === null) return
+    runAction(tx.id, () =>
+      voidTransaction({
+        portfolioId,
+        transactionId: tx.id,
+        reason: reason.trim() || undefined,
+        actor: DASHBOARD_ACTOR,
+      })
+    )
+  }
+
+  const handleDelete = (tx: Transaction) => {
+    if (!window.confirm(`Permanently delete ${tx.id}? Daily history from ${tx.date} will be recomputed.`)) return
+    runAction(tx.id, () => deleteTransaction({ portfolioId, transactionId: tx.id, actor: DASHBOARD_ACTOR }))
+  }
+
+  if (loading || transactions.length === 0) return null
+
+  return (
+    <div className="card">
+      <div className="mb-5">
+        <h2 className="text-xl font-semibold text-gray-900">Transactions</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Void or delete mistaken entries. Both recompute daily history from the transaction date.
+        </p>
+      </div>
+
+      {error && <div className="mb-3 text-sm text-red-600">Error: {error}</div>}
+
+      <div className="max-h-96 overflow-auto rounded-xl border border-slate-200">
+        <table className="min-w-full divide-y divide-slate-200 text-xs">
+          <thead className="sticky top-0 bg-slate-50">
+            <tr className="text-left text-[10px] font-medium uppercase tracking-wide text-slate-500">
+              <th className="px-2 py-1.5">Date</th>
+              <th className="px-2 py-1.5">ID</th>
+              <th className="px-2 py-1.5">Type</th>
+              <th className="px-2 py-1.5">Asset</th>
+              <th className="whitespace-nowrap px-2 py-1.5 text-right">Amount</th>
+              <th className="whitespace-nowrap px-2 py-1.5 text-right">USD value</th>
+              <th className="px-2 py-1.5 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {transactions.map((tx) => {
+              const isVoided = Boolean(tx.voidedAt)
+              const isPending = pendingId === tx.id
+
+              return (
+                <tr key={tx.id} className={isVoided ? 'bg-slate-50 text-slate-400' : 'hover:bg-slate-50/80'}>
+                  <td className="whitespace-nowrap px-2 py-1.5 tabular-nums">{tx.date}</td>
+                  <td className="px-2 py-1.5 font-mono">{tx.id}</td>
+                  <td className="px-2 py-1.5">
+                    <span className={isVoided ? 'line-through' : ''}>{tx.type}</span>
+                    {isVoided && (
+                      <span
+                        className="ml-1 rounded bg-slate-200 px-1 text-[10px] uppercase text-slate-600"
+                        title={tx.voidReason}
+                      >
+                        void
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5">{describeAsset(tx)}</td>
+                  <td className="px-2 py-1.5 text-right tabular-nums">
+                    {tx.amount.toLocaleString(undefined, { maximumFractionDigits: 8 })}
+                  </td>
+                  <td className="px-2 py-1.5 text-right tabular-nums">{formatCurrency(tx.usdValue)}</td>
+                  <td className="whitespace-nowrap px-2 py-1.5 text-right">
+                    {!isVoided && (
+                      <button
+                        onClick={() => handleVoid(tx)}
+                        disabled={isPending}
+                        className="mr-2 text-amber-700 hover:text-amber-800 disabled:opacity-50"
+                      >
+                        Void
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(tx)}
+                      disabled={isPending}
+                      className="text-rose-700 hover:text-rose-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
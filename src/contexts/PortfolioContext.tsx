@@ -0,0 +1,26 @@
+'use client'
+
+import { createContext, useContext, ReactNode } from 'react'
+import { PortfolioInfo } from '@/lib/types/portfolio'
+
+const PortfolioContext = createContext<PortfolioInfo | undefined>(undefined)
+
+export function PortfolioProvider({ portfolio, children }: { portfolio: PortfolioInfo; children: ReactNode }) {
+  return (
+    <PortfolioContext.Provider value={portfolio}>
+      {children}
+    </PortfolioContext.Provider>
+  )
+}
+
+/**
+ * Portfolio resolved from the route slug; scopes every Convex query and API call
+ */
+export function usePortfolioInfo() {
+  const context = useContext(PortfolioContext)
+  if (context === undefined) {
+    console.error('[usePortfolioInfo] Context is undefined - component may be outside PortfolioProvider')
+    throw new Error('usePortfolioInfo must be used within a PortfolioProvider')
+  }
+  return context
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import { useMemo } from 'react'
+import { BenchmarkDefinition } from '@/lib/types/portfolio'
+import { getBenchmarkPriceIds } from '@/lib/utils/benchmarks'
+import { useDailyPrices } from '@/hooks/useDailyPrices'
+
+/**
+ * Stored daily closes of a benchmark's assets over a range (USD), synced on demand
+ */
+export function useBenchmarkPrices(benchmark: BenchmarkDefinition | null, startDate: string | null, endDate: string) {
+  const priceIds = useMemo(() => (benchmark ? getBenchmarkPriceIds(benchmark) : []), [benchmark])
+  return useDailyPrices(priceIds, startDate, endDate)
+}
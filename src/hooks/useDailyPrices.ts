@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { addDays, format, parseISO } from 'date-fns'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { BenchmarkPrice } from '@/lib/types/portfolio'
+import { fetchPriceHistory } from '@/lib/api/client'
+
+function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd')
+}
+
+/**
+ * Stored daily closes (USD) of the given price IDs from the shared `benchmarkPrices` table.
+ * Days missing at either end of the stored history (up to `endDate`, normally yesterday)
+ * are fetched once and saved to Convex so later visits read them from the database.
+ */
+export function useDailyPrices(priceIds: string[], startDate: string | null, endDate: string) {
+  const stored = useQuery(
+    api.benchmarkPrices.list,
+    priceIds.length > 0 && startDate ? { priceIds } : 'skip'
+  )
+  const upsertMany = useMutation(api.benchmarkPrices.upsertMany)
+  const attemptedRef = useRef(new Set<string>())
+  const syncingRef = useRef(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!stored || !startDate || startDate > endDate || syncingRef.current) return
+
+    const gaps: { priceId: string; start: string; end: string }[] = []
+    priceIds.forEach((priceId) => {
+      const dates = stored.filter((price) => price.priceId === priceId).map((price) => price.date)
+      if (dates.length === 0) {
+        gaps.push({ priceId, start: startDate, end: endDate })
+        return
+      }
+      if (dates[0] > startDate) gaps.push({ priceId, start: startDate, end: shiftDate(dates[0], -1) })
+      if (dates[dates.length - 1] < endDate) {
+        gaps.push({ priceId, start: shiftDate(dates[dates.length - 1], 1), end: endDate })
+      }
+    })
+
+    const pending = gaps.filter((gap) => !attemptedRef.current.has(`${gap.priceId}:${gap.start}:${gap.end}`))
+    if (pending.length === 0) return
+
+    const sync = async () => {
+      syncingRef.current = true
+      setIsSyncing(true)
+      setError(null)
+      try {
+        for (const gap of pending) {
+          attemptedRef.current.add(`${gap.priceId}:${gap.start}:${gap.end}`)
+          const response = await fetchPriceHistory(gap.priceId, gap.start, gap.end)
+          if (response.prices.length > 0) {
+            await upsertMany({ priceId: gap.priceId, prices: response.prices })
+          }
+        }
+      } catch (syncError) {
+        console.error('[Prices] Failed to sync daily prices:', syncError)
+        setError(syncError instanceof Error ? syncError.message : 'Failed to fetch daily prices')
+      } finally {
+        syncingRef.current = false
+        setIsSyncing(false)
+      }
+    }
+
+    sync()
+  }, [stored, priceIds, startDate, endDate, upsertMany])
+
+  const prices = useMemo<BenchmarkPrice[]>(() => stored || [], [stored])
+
+  return {
+    prices,
+    loading: Boolean(priceIds.length > 0 && startDate && stored === undefined),
+    isSyncing,
+    error,
+  }
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { NavPoint, PortfolioSummary } from '@/lib/types/portfolio'
+import { calculateFeeAccrual } from '@/lib/utils/fund-calculations'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { DASHBOARD_ACTOR } from '@/lib/constants/portfolio-data'
+
+interface UseFeeAccrualOptions {
+  summary: PortfolioSummary | null
+  selectedDate?: string | null
+  fxRate?: number // Reporting-currency units per USD in `summary`; fees accrue in USD
+}
+
+export function useFeeAccrual({ summary, selectedDate, fxRate = 1 }: UseFeeAccrualOptions) {
+  const { id: portfolioId } = usePortfolioInfo()
+  const { snapshot } = usePortfolioData()
+  const settings = snapshot?.settings ?? null
+  const transactions = snapshot?.transactions || []
+  const hasFees = Boolean(settings && ((settings.managementFeeRate ?? 0) > 0 || (settings.performanceFeeRate ?? 0) > 0))
+  const endDate = selectedDate || format(new Date(), 'yyyy-MM-dd')
+
+  const dailyEntries = useQuery(api.portfolioDaily.list, hasFees ? { portfolioId, endDate } : 'skip')
+  const addTransaction = useMutation(api.portfolioData.addTransaction)
+  const [isPosting, setIsPosting] = useState(false)
+
+  const feeAccrual = useMemo(() => {
+    if (!hasFees || !settings || !dailyEntries || !summary) return null
+
+    const navPoints: NavPoint[] = dailyEntries
+      .filter((entry) => entry.date < endDate)
+      .map((entry) => ({
+        date: entry.date,
+        portfolioValue: entry.portfolioValue,
+        totalShares: entry.totalShares,
+      }))
+    navPoints.push({ date: endDate, portfolioValue: summary.totalValue / fxRate, totalShares: summary.totalShares })
+
+    return calculateFeeAccrual(navPoints, transactions, settings)
+  }, [hasFees, settings, dailyEntries, summary, endDate, transactions, fxRate])
+
+  const unpostedFees = useMemo(() => {
+    if (!feeAccrual) return []
+    const postedIds = new Set(transactions.map((tx) => tx.id))
+    return feeAccrual.feeTransactions.filter((tx) => !postedIds.has(tx.id))
+  }, [feeAccrual, transactions])
+
+  const postFees = useCallback(async () => {
+    if (isPosting || unpostedFees.length === 0) return
+
+    setIsPosting(true)
+    try {
+      for (const tx of unpostedFees) {
+        await addTransaction({
+          portfolioId,
+          actor: DASHBOARD_ACTOR,
+          transactionId: tx.id,
+          date: tx.date,
+          type: 'FEE',
+          amount: tx.amount,
+          usdValue: tx.usdValue,
+        })
+      }
+    } finally {
+      setIsPosting(false)
+    }
+  }, [addTransaction, isPosting, unpostedFees, portfolioId])
+
+  return {
+    hasFees,
+    feeAccrual,
+    unpostedFees,
+    postFees,
+    isPosting,
+  }
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { PortfolioSummary } from '@/lib/types/portfolio'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { convertTransactions } from '@/lib/utils/fx'
+import { excludeVoided } from '@/lib/utils/transaction-order'
+import { calculateMoneyWeightedReturn } from '@/lib/utils/xirr'
+
+interface UseMoneyWeightedReturnOptions {
+  summary: PortfolioSummary | null // In the reporting currency
+  selectedDate?: string | null
+  startDate?: string | null        // Period start (NAV at its close is carried in); since inception when omitted
+}
+
+/**
+ * Money-weighted return (XIRR) next to the quota return over the same period.
+ * Periods that start after the first transaction need that day's portfolioDaily NAV.
+ */
+export function useMoneyWeightedReturn({ summary, selectedDate, startDate }: UseMoneyWeightedReturnOptions) {
+  const { id: portfolioId } = usePortfolioInfo()
+  const { snapshot } = usePortfolioData()
+  const { converter } = useReportingCurrency()
+  const endDate = selectedDate || format(new Date(), 'yyyy-MM-dd')
+
+  const ledger = useMemo(() => excludeVoided(snapshot?.transactions || []), [snapshot])
+  const firstTransactionDate = ledger.reduce<string | null>(
+    (min, tx) => (min === null || tx.date < min ? tx.date : min),
+    null
+  )
+  const periodStart =
+    startDate && firstTransactionDate && startDate >= firstTransactionDate && startDate < endDate ? startDate : null
+
+  const startEntries = useQuery(
+    api.portfolioDaily.list,
+    periodStart ? { portfolioId, startDate: periodStart, endDate: periodStart } : 'skip'
+  )
+
+  const transactions = useMemo(
+    () => convertTransactions(ledger, converter, snapshot?.settings?.initialQuotaValue ?? 1),
+    [ledger, converter, snapshot]
+  )
+
+  return useMemo(() => {
+    if (!summary) return { result: null, quotaReturn: null, missingStartValue: false, loading: true }
+
+    if (!periodStart) {
+      return {
+        result: calculateMoneyWeightedReturn(transactions, { endDate, endValue: summary.totalValue }),
+        quotaReturn: summary.quotaPerformance / 100,
+        missingStartValue: false,
+        loading: false,
+      }
+    }
+
+    if (startEntries === undefined) return { result: null, quotaReturn: null, missingStartValue: false, loading: true }
+
+    const entry = startEntries[0]
+    if (!entry) return { result: null, quotaReturn: null, missingStartValue: true, loading: false }
+
+    const startValue = converter.convert(entry.portfolioValue, entry.date)
+    const startQuotaValue = entry.totalShares > 0 ? startValue / entry.totalShares : 0
+
+    return {
+      result: calculateMoneyWeightedReturn(transactions, {
+        startDate: periodStart,
+        startValue,
+        endDate,
+        endValue: summary.totalValue,
+      }),
+      quotaReturn: startQuotaValue > 0 ? summary.quotaValue / startQuotaValue - 1 : null,
+      missingStartValue: false,
+      loading: false,
+    }
+  }, [summary, periodStart, startEntries, transactions, endDate, converter])
+}
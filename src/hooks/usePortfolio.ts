@@ -1,10 +1,13 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback } from 'react'
-import { PortfolioItem, PortfolioSummary, CategoryData, PriceData } from '@/lib/types/portfolio'
+import { format } from 'date-fns'
+import { PortfolioItem, PortfolioSummary, CategoryData, PriceData, ExitedPosition } from '@/lib/types/portfolio'
 import { fetchPricesWithRetry } from '@/lib/api/client'
 import {
   createPortfolioItem,
+  createCashItem,
+  isCashItem,
   calculatePercentages,
   aggregateByCategory,
   calculateTotalPerformance
@@ -12,12 +15,24 @@ import {
 import {
   processTransactions,
   calculateCostBasis,
+  calculateIncome,
+  calculateRealizedGains,
   calculateQuotaValue,
   calculateQuotaPerformance,
+  calculateInvestorPositions,
+  DEFAULT_LOT_MATCHING_METHOD,
   getTokenAmount
 } from '@/lib/utils/fund-calculations'
 import { usePortfolioDate } from '@/contexts/PortfolioDateContext'
 import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
+import { useReportingCurrency } from '@/hooks/useReportingCurrency'
+import { convertPrices, convertSettings, convertTransactions } from '@/lib/utils/fx'
+import { withCashCategory } from '@/lib/utils/categories'
+import { DEFAULT_CATEGORIES } from '@/lib/constants/portfolio-data'
+
+// Ignore floating-point residue left in cash after buys/sells
+const MIN_CASH_BALANCE = 0.01
 
 interface UsePortfolioOptions {
   selectedDate?: string | null
@@ -25,6 +40,7 @@ interface UsePortfolioOptions {
 
 export function usePortfolio(options: UsePortfolioOptions = {}) {
   const { selectedDate } = options
+  const { id: portfolioId } = usePortfolioInfo()
   const { snapshot, loading: snapshotLoading, error: snapshotError } = usePortfolioData()
 
   const { historicalPrices: sharedHistoricalPrices, isFetchingHistorical } = usePortfolioDate()
@@ -37,22 +53,68 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [currentPrices, setCurrentPrices] = useState<Record<string, PriceData>>({})
 
+  const { currency, converter, loading: fxLoading } = useReportingCurrency()
+
   const isHistorical = Boolean(selectedDate)
   const tokens = snapshot?.tokens || []
-  const transactions = snapshot?.transactions || []
-  const initialQuotaValue = snapshot?.settings?.initialQuotaValue ?? 1
-  const baselineTotalValue = snapshot?.settings?.baselineTotalValue ?? 0
+  const investors = snapshot?.investors || []
+  const categoryDefinitions = useMemo(
+    () => withCashCategory(snapshot?.categories ?? DEFAULT_CATEGORIES),
+    [snapshot]
+  )
+
+  // Everything below is computed in the reporting currency
+  const { transactions, settings } = useMemo(() => {
+    const ledger = snapshot?.transactions || []
+    const baseSettings = snapshot?.settings ?? { baselineTotalValue: 0, initialQuotaValue: 1 }
+    return {
+      transactions: convertTransactions(ledger, converter, baseSettings.initialQuotaValue),
+      settings: convertSettings(baseSettings, ledger, converter),
+    }
+  }, [snapshot, converter])
+  const initialQuotaValue = settings.initialQuotaValue
+  const baselineTotalValue = settings.baselineTotalValue
+  const fxRate = converter.rateOn(selectedDate || format(new Date(), 'yyyy-MM-dd'))
 
   const fundState = useMemo(
     () => processTransactions(transactions, selectedDate || undefined, initialQuotaValue),
     [transactions, selectedDate, initialQuotaValue]
   )
+  // Cash is held in USD: take the balance from the USD ledger and convert it at the day's rate
+  const cashBalance = useMemo(() => {
+    const usdState = processTransactions(
+      snapshot?.transactions || [],
+      selectedDate || undefined,
+      snapshot?.settings?.initialQuotaValue ?? 1
+    )
+    return usdState.cashBalance * fxRate
+  }, [snapshot, selectedDate, fxRate])
+  const incomeCostBasis = settings.incomeCostBasis
+  const lotMatchingMethod = settings.lotMatchingMethod
   const costBasisMap = useMemo(
-    () => calculateCostBasis(transactions, selectedDate || undefined),
+    () => calculateCostBasis(transactions, selectedDate || undefined, { incomeCostBasis, lotMatchingMethod }),
+    [transactions, selectedDate, incomeCostBasis, lotMatchingMethod]
+  )
+  const realizedMap = useMemo(
+    () => calculateRealizedGains(transactions, selectedDate || undefined, { incomeCostBasis, lotMatchingMethod }),
+    [transactions, selectedDate, incomeCostBasis, lotMatchingMethod]
+  )
+  const exitedPositions = useMemo<ExitedPosition[]>(() => {
+    const positions: ExitedPosition[] = []
+    realizedMap.forEach((realizedPnl, symbol) => {
+      if ((fundState.holdings.get(symbol) || 0) > 0) return
+      const token = tokens.find(t => t.symbol === symbol)
+      positions.push({ symbol, name: token?.name || symbol, realizedPnl })
+    })
+    return positions.sort((a, b) => b.realizedPnl - a.realizedPnl)
+  }, [realizedMap, fundState, tokens])
+  const incomeMap = useMemo(
+    () => calculateIncome(transactions, selectedDate || undefined),
     [transactions, selectedDate]
   )
 
-  const buildPortfolioFromPrices = useCallback((prices: Record<string, PriceData>, date?: string) => {
+  const buildPortfolioFromPrices = useCallback((usdPrices: Record<string, PriceData>, date?: string) => {
+    const prices = convertPrices(usdPrices, fxRate)
     const items: PortfolioItem[] = tokens
       .filter(token => {
         const amount = getTokenAmount(token, fundState.holdings)
@@ -61,35 +123,46 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
       .map(token => {
         const amount = getTokenAmount(token, fundState.holdings)
         const costBasis = costBasisMap.get(token.symbol) || 0
-        return createPortfolioItem(token, amount, costBasis, prices)
+        return {
+          ...createPortfolioItem(token, amount, costBasis, prices, date),
+          income: incomeMap.get(token.symbol) || 0,
+          realizedPnl: realizedMap.get(token.symbol) || 0
+        }
       })
 
+    if (Math.abs(cashBalance) >= MIN_CASH_BALANCE) {
+      items.push(createCashItem(cashBalance))
+    }
+
     const itemsWithPercentages = calculatePercentages(items)
-    const categoryData = aggregateByCategory(itemsWithPercentages)
+    const categoryData = aggregateByCategory(itemsWithPercentages, categoryDefinitions)
     const totalValue = itemsWithPercentages.reduce((sum, item) => sum + item.currentValue, 0)
     const quotaValue = calculateQuotaValue(totalValue, fundState.totalShares, initialQuotaValue)
     const quotaPerformance = calculateQuotaPerformance(quotaValue, initialQuotaValue)
     const totalPerformance = calculateTotalPerformance(totalValue, baselineTotalValue)
+    const totalIncome = Array.from(incomeMap.values()).reduce((sum, value) => sum + value, 0)
+    const realizedPnl = Array.from(realizedMap.values()).reduce((sum, value) => sum + value, 0)
+    const unrealizedPnl = itemsWithPercentages
+      .filter(item => !isCashItem(item))
+      .reduce((sum, item) => sum + item.currentValue - item.costBasis, 0)
 
     const portfolioSummary: PortfolioSummary = {
       totalValue,
       baselineValue: baselineTotalValue,
       totalPerformance: totalPerformance.performance,
-      categories: categoryData.map(cat => ({
-        category: cat.category as any,
-        totalValue: cat.totalValue,
-        percentage: cat.percentage,
-        items: cat.items
-      })),
+      categories: categoryData,
       lastUpdated: date ? new Date(date) : new Date(),
       quotaValue,
       initialQuotaValue,
       totalShares: fundState.totalShares,
-      quotaPerformance
+      quotaPerformance,
+      totalIncome,
+      realizedPnl,
+      unrealizedPnl
     }
 
     return { itemsWithPercentages, portfolioSummary }
-  }, [tokens, fundState, costBasisMap, baselineTotalValue, initialQuotaValue])
+  }, [tokens, categoryDefinitions, fundState, cashBalance, costBasisMap, incomeMap, realizedMap, baselineTotalValue, initialQuotaValue, fxRate])
 
   const fetchCurrentPrices = useCallback(async (forceRefresh: boolean = false) => {
     if (tokens.length === 0) {
@@ -101,7 +174,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     setError(null)
 
     try {
-      const response = await fetchPricesWithRetry(3, forceRefresh)
+      const response = await fetchPricesWithRetry(portfolioId, 3, forceRefresh)
 
       const prices: Record<string, PriceData> = response.priceData || {}
       if (!response.priceData) {
@@ -123,7 +196,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     } finally {
       setLoading(false)
     }
-  }, [buildPortfolioFromPrices, tokens.length])
+  }, [buildPortfolioFromPrices, tokens.length, portfolioId])
 
   useEffect(() => {
     if (!selectedDate || !snapshot) return
@@ -143,7 +216,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
   }, [sharedHistoricalPrices, selectedDate, buildPortfolioFromPrices, snapshot])
 
   useEffect(() => {
-    if (snapshotLoading) {
+    if (snapshotLoading || fxLoading) {
       setLoading(true)
       return
     }
@@ -162,6 +235,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     setLoading(isFetchingHistorical && Object.keys(sharedHistoricalPrices).length === 0)
   }, [
     snapshotLoading,
+    fxLoading,
     snapshotError,
     selectedDate,
     isFetchingHistorical,
@@ -169,6 +243,11 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     fetchCurrentPrices,
   ])
 
+  const investorPositions = useMemo(
+    () => calculateInvestorPositions(fundState, summary?.quotaValue ?? initialQuotaValue, investors),
+    [fundState, summary?.quotaValue, initialQuotaValue, investors]
+  )
+
   const refreshData = useCallback((forceRefresh: boolean = false) => {
     if (!selectedDate) {
       fetchCurrentPrices(forceRefresh)
@@ -179,13 +258,20 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     portfolioItems,
     summary,
     categories,
+    categoryDefinitions,
+    tokens,
     loading,
     error,
     lastUpdated,
     refreshData,
     fundState,
+    investorPositions,
+    exitedPositions,
+    lotMatchingMethod: lotMatchingMethod ?? DEFAULT_LOT_MATCHING_METHOD,
     isHistorical,
     selectedDate,
-    historicalPrices: selectedDate ? sharedHistoricalPrices : currentPrices
+    historicalPrices: selectedDate ? sharedHistoricalPrices : currentPrices,
+    currency,
+    fxRate
   }
 }
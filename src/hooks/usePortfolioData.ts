@@ -3,6 +3,7 @@
 import { useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
 import { PortfolioSnapshot } from '@/lib/types/portfolio'
+import { usePortfolioInfo } from '@/contexts/PortfolioContext'
 
 const DEFAULT_SETTINGS = {
   baselineTotalValue: 0,
@@ -10,7 +11,8 @@ const DEFAULT_SETTINGS = {
 }
 
 export function usePortfolioData() {
-  const snapshot = useQuery(api.portfolioData.getSnapshot)
+  const { id: portfolioId } = usePortfolioInfo()
+  const snapshot = useQuery(api.portfolioData.getSnapshot, { portfolioId })
 
   if (snapshot === undefined) {
     return {
@@ -26,7 +28,9 @@ export function usePortfolioData() {
       error: 'Portfolio data is not initialized in Convex. Run the bootstrap CLI command.',
       snapshot: {
         tokens: snapshot.tokens,
+        categories: snapshot.categories,
         transactions: snapshot.transactions,
+        investors: snapshot.investors,
         settings: DEFAULT_SETTINGS,
       } as PortfolioSnapshot,
     }
@@ -0,0 +1,31 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { usePortfolioData } from '@/hooks/usePortfolioData'
+import { BASE_CURRENCY, createFxConverter } from '@/lib/utils/fx'
+
+/**
+ * Reporting currency from settings plus a converter backed by the Convex fxRates
+ * table. Falls back to USD (with `missingRates`) until rates are synced.
+ */
+export function useReportingCurrency() {
+  const { snapshot } = usePortfolioData()
+  const requestedCurrency = snapshot?.settings?.reportingCurrency ?? BASE_CURRENCY
+  const isBaseCurrency = requestedCurrency === BASE_CURRENCY
+
+  const rates = useQuery(api.fxRates.list, isBaseCurrency ? 'skip' : { currency: requestedCurrency })
+
+  const converter = useMemo(
+    () => createFxConverter(requestedCurrency, rates || []),
+    [requestedCurrency, rates]
+  )
+
+  return {
+    currency: converter.currency,
+    converter,
+    loading: !isBaseCurrency && rates === undefined,
+    missingRates: !isBaseCurrency && rates !== undefined && rates.length === 0 ? requestedCurrency : null,
+  }
+}
@@ -39,10 +39,12 @@ export interface ApiError {
 }
 
 /**
- * Fetch current crypto prices from our API
+ * Fetch current crypto prices for a portfolio's tokens from our API
  */
-export async function fetchPrices(forceRefresh: boolean = false): Promise<PricesResponse> {
-  const url = forceRefresh ? '/api/prices?refresh=true' : '/api/prices'
+export async function fetchPrices(portfolioId: string, forceRefresh: boolean = false): Promise<PricesResponse> {
+  const params = new URLSearchParams({ portfolio: portfolioId })
+  if (forceRefresh) params.set('refresh', 'true')
+  const url = `/api/prices?${params.toString()}`
   
   const response = await fetch(url, {
     next: { revalidate: 60 }, // Cache for 60 seconds
@@ -71,12 +73,16 @@ export async function fetchPrices(forceRefresh: boolean = false): Promise<Prices
 /**
  * Fetch prices with retry logic
  */
-export async function fetchPricesWithRetry(maxRetries: number = 3, forceRefresh: boolean = false): Promise<PricesResponse> {
+export async function fetchPricesWithRetry(
+  portfolioId: string,
+  maxRetries: number = 3,
+  forceRefresh: boolean = false
+): Promise<PricesResponse> {
   let lastError: Error | null = null
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      return await fetchPrices(forceRefresh)
+      return await fetchPrices(portfolioId, forceRefresh)
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown error')
       
@@ -95,10 +101,11 @@ export async function fetchPricesWithRetry(maxRetries: number = 3, forceRefresh:
 
 /**
  * Fetch historical crypto prices from our API
+ * @param portfolioId - Portfolio whose tokens are priced
  * @param date - Date in YYYY-MM-DD format
  */
-export async function fetchHistoricalPrices(date: string): Promise<HistoricalPricesResponse> {
-  const url = `/api/prices/historical?date=${date}`
+export async function fetchHistoricalPrices(portfolioId: string, date: string): Promise<HistoricalPricesResponse> {
+  const url = `/api/prices/historical?date=${date}&portfolio=${encodeURIComponent(portfolioId)}`
   
   const response = await fetch(url, {
     headers: {
@@ -126,12 +133,16 @@ export async function fetchHistoricalPrices(date: string): Promise<HistoricalPri
 /**
  * Fetch historical prices with retry logic
  */
-export async function fetchHistoricalPricesWithRetry(date: string, maxRetries: number = 3): Promise<HistoricalPricesResponse> {
+export async function fetchHistoricalPricesWithRetry(
+  portfolioId: string,
+  date: string,
+  maxRetries: number = 3
+): Promise<HistoricalPricesResponse> {
   let lastError: Error | null = null
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      return await fetchHistoricalPrices(date)
+      return await fetchHistoricalPrices(portfolioId, date)
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown error')
       
@@ -227,3 +238,42 @@ export async function fetchBtcHistory(
   return (await response.json()) as BtcHistoryResponse
 }
 
+
+export interface PriceHistoryResponse {
+  tokenId: string
+  prices: { date: string; price: number }[]
+  timestamp: string
+}
+
+/**
+ * Fetch one token's daily USD closes between two dates (inclusive)
+ */
+export async function fetchPriceHistory(
+  tokenId: string,
+  startDate: string,
+  endDate: string,
+  signal?: AbortSignal
+): Promise<PriceHistoryResponse> {
+  const params = new URLSearchParams({ id: tokenId, start: startDate, end: endDate })
+  const response = await fetch(`/api/prices/history?${params}`, {
+    headers: {
+      Accept: 'application/json',
+    },
+    signal,
+  })
+
+  if (!response.ok) {
+    const errorData: ApiError = await response.json().catch(() => ({
+      error: 'Unknown error',
+    }))
+    const message =
+      errorData.message ||
+      errorData.error ||
+      `HTTP error! status: ${response.status}`
+    const error = new Error(message) as Error & { status?: number }
+    error.status = response.status
+    throw error
+  }
+
+  return (await response.json()) as PriceHistoryResponse
+}
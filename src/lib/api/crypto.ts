@@ -1,4 +1,5 @@
 import { CoinGeckoPriceResponse, TokenMetadata, PriceData } from '@/lib/types/portfolio'
+import { getUniqueTokenIdsForPricing } from '@/lib/utils/portfolio-pricing'
 
 const COINGECKO_API_URL = process.env.NEXT_PUBLIC_COINGECKO_API_URL || 'https://api.coingecko.com/api/v3'
 
@@ -106,29 +107,16 @@ export async function fetchPricesWithCoinGecko(tokenIds: string[]): Promise<Reco
  * Fetch current prices and 24h changes for multiple tokens from CoinGecko
  */
 export async function fetchCryptoPrices(tokens: TokenMetadata[]): Promise<Record<string, PriceData>> {
-  // Filter out tokens that use ETH_AMOUNT or BTC_AMOUNT special calculations
-  // These tokens will use ETH and BTC prices respectively
-  const tokensNeedingPrices = tokens.filter(token => 
-    !token.specialCalculation || token.specialCalculation === 'REGULAR'
-  )
-  
-  // Get unique CoinGecko IDs for tokens that need price fetching
-  const uniqueIds = new Set<string>()
-  tokensNeedingPrices.forEach(token => {
-    uniqueIds.add(token.id)
-  })
-  
-  const tokenIds = Array.from(uniqueIds)
-  
-  return fetchPricesWithCoinGecko(tokenIds)
+  // Proxied tokens are quoted by their reference asset's ID
+  return fetchPricesWithCoinGecko(getUniqueTokenIds(tokens))
 }
 
 /**
  * Fetch price for a single token
  */
 export async function fetchTokenPrice(token: TokenMetadata): Promise<PriceData> {
-  // If token uses special calculation, it doesn't need its own price
-  if (token.specialCalculation && token.specialCalculation !== 'REGULAR') {
+  // A proxied token doesn't need its own price
+  if (token.priceProxy) {
     return { price: 0 }
   }
   
@@ -140,16 +128,7 @@ export async function fetchTokenPrice(token: TokenMetadata): Promise<PriceData>
  * Get unique token IDs from portfolio data
  */
 export function getUniqueTokenIds(tokens: TokenMetadata[]): string[] {
-  // Only include tokens that need price fetching (not ETH_AMOUNT or BTC_AMOUNT)
-  const tokensNeedingPrices = tokens.filter(token => 
-    !token.specialCalculation || token.specialCalculation === 'REGULAR'
-  )
-  
-  const uniqueIds = new Set<string>()
-  tokensNeedingPrices.forEach(token => {
-    uniqueIds.add(token.id)
-  })
-  return Array.from(uniqueIds)
+  return getUniqueTokenIdsForPricing(tokens)
 }
 
 /**
@@ -189,12 +168,10 @@ export async function fetchPricesWithFallback(tokens: TokenMetadata[]): Promise<
     console.warn('Using mock data due to API error:', error)
     const mockPrices = getMockPrices()
     
-    // Return only the requested token prices for tokens that need price fetching
+    // Return only the requested price IDs (reference assets for proxied tokens)
     const fallbackPrices: Record<string, PriceData> = {}
-    tokens.forEach(token => {
-      if (!token.specialCalculation || token.specialCalculation === 'REGULAR') {
-        fallbackPrices[token.id] = mockPrices[token.id] || { price: 0, marketCap: 0, fdv: 0 }
-      }
+    getUniqueTokenIds(tokens).forEach(tokenId => {
+      fallbackPrices[tokenId] = mockPrices[tokenId] || { price: 0, marketCap: 0, fdv: 0 }
     })
     
     return fallbackPrices
@@ -244,10 +221,11 @@ export async function fetchCoinMarketCapPrices(symbols: string[]): Promise<Recor
  * Uses the preferredAPI field from token metadata to determine which API to use
  */
 export async function fetchPricesWithPreferredAPI(tokens: TokenMetadata[]): Promise<Record<string, PriceData>> {
-  // Filter tokens that need price fetching (not ETH_AMOUNT or BTC_AMOUNT)
-  const tokensNeedingPrices = tokens.filter(token => 
-    !token.specialCalculation || token.specialCalculation === 'REGULAR'
-  )
+  // Proxied tokens are priced through their reference asset instead
+  const tokensNeedingPrices = tokens.filter(token => !token.priceProxy)
+  const regularIds = new Set(tokensNeedingPrices.map(token => token.id))
+  const referenceIds = Array.from(new Set(tokens.flatMap(token => token.priceProxy ? [token.priceProxy.priceId] : [])))
+    .filter(priceId => !regularIds.has(priceId))
   
   const prices: Record<string, PriceData> = {}
   
@@ -314,6 +292,17 @@ export async function fetchPricesWithPreferredAPI(tokens: TokenMetadata[]): Prom
     }
   }
   
+  // Reference assets that aren't held directly always come from CoinGecko
+  if (referenceIds.length > 0) {
+    try {
+      const referencePrices = await fetchPricesWithCoinGecko(referenceIds)
+      console.log('CoinGecko reference prices:', referencePrices)
+      Object.assign(prices, referencePrices)
+    } catch (error) {
+      console.error('Reference price fetch failed:', error)
+    }
+  }
+  
   console.log('Final prices with preferred APIs:', prices)
   return prices
 }
@@ -434,27 +423,55 @@ export async function fetchHistoricalPrices(tokenIds: string[], date: string): P
 
 /**
  * Fetch historical prices for tokens using the token registry
- * Handles special calculation tokens (ETH_AMOUNT, BTC_AMOUNT) by fetching base asset prices
+ * Proxied tokens fetch their reference asset's price instead of their own
  */
 export async function fetchHistoricalPricesForTokens(
   tokens: TokenMetadata[], 
   date: string
 ): Promise<Record<string, PriceData>> {
-  // Get unique CoinGecko IDs that we need to fetch
-  // For special calculation tokens, we need the base asset (ETH or BTC)
-  const tokenIdsToFetch = new Set<string>()
-  
-  for (const token of tokens) {
-    if (token.specialCalculation === 'ETH_AMOUNT') {
-      tokenIdsToFetch.add('ethereum')
-    } else if (token.specialCalculation === 'BTC_AMOUNT') {
-      tokenIdsToFetch.add('bitcoin')
-    } else if (!token.specialCalculation || token.specialCalculation === 'REGULAR') {
-      tokenIdsToFetch.add(token.id)
+  return fetchHistoricalPrices(getUniqueTokenIdsForPricing(tokens), date)
+}
+
+/**
+ * Daily USD closes of one token between two dates (inclusive) from CoinGecko's
+ * market_chart/range endpoint. Ranges under 90 days come back hourly, so the last
+ * point of each day is kept. Demo/free plans only serve the last 365 days.
+ */
+export async function fetchDailyPriceHistory(
+  tokenId: string,
+  startDate: string,
+  endDate: string
+): Promise<BtcHistoryPoint[]> {
+  const from = Math.floor(Date.parse(`${startDate}T00:00:00Z`) / 1000)
+  const to = Math.floor(Date.parse(`${endDate}T23:59:59Z`) / 1000)
+  const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(tokenId)}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`
+
+  const response = await fetch(url, {
+    headers: getCoinGeckoHeaders(),
+    next: { revalidate: 3600 },
+  })
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new RateLimitError('CoinGecko rate limit reached')
     }
+    throw new Error(`HTTP error! status: ${response.status}`)
   }
-  
-  return fetchHistoricalPrices(Array.from(tokenIdsToFetch), date)
+
+  const data = (await response.json()) as { prices?: [number, number][] }
+  const byDate = new Map<string, number>()
+
+  for (const [timestamp, price] of data.prices ?? []) {
+    if (!Number.isFinite(timestamp) || !Number.isFinite(price) || price <= 0) {
+      continue
+    }
+    byDate.set(new Date(timestamp).toISOString().slice(0, 10), price)
+  }
+
+  return Array.from(byDate.entries())
+    .filter(([date]) => date >= startDate && date <= endDate)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([date, price]) => ({ date, price }))
 }
 
 /**
@@ -489,8 +506,7 @@ export interface ComparisonResult {
 export async function comparePrices(tokens: TokenMetadata[]): Promise<ComparisonResult> {
   // Filter tokens that need price fetching and prefer CMC
   const cmcPreferredTokens = tokens.filter(token => 
-    token.preferredAPI === 'coinmarketcap' &&
-    (!token.specialCalculation || token.specialCalculation === 'REGULAR')
+    token.preferredAPI === 'coinmarketcap' && !token.priceProxy
   )
 
   const comparisons: PriceComparison[] = []
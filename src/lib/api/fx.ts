@@ -0,0 +1,33 @@
+import { FxRate } from '@/lib/types/portfolio'
+
+const FX_API_URL = process.env.FX_API_URL || 'https://api.frankfurter.app'
+
+/**
+ * Daily USD FX rates (units of `currency` per 1 USD) between two dates, inclusive.
+ * Uses Frankfurter (ECB reference rates, no key). Only business days are published;
+ * consumers carry the last known rate over weekends and holidays.
+ */
+export async function fetchFxRates(currency: string, startDate: string, endDate: string): Promise<FxRate[]> {
+  const url = `${FX_API_URL}/${startDate}..${endDate}?from=USD&to=${encodeURIComponent(currency)}`
+
+  const response = await fetch(url, {
+    next: { revalidate: 3600 },
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`)
+  }
+
+  const data = (await response.json()) as {
+    rates?: Record<string, Record<string, number>>
+  }
+
+  if (!data.rates) {
+    throw new Error(`No FX rates returned for USD/${currency}`)
+  }
+
+  return Object.entries(data.rates)
+    .map(([date, rates]) => ({ date, rate: rates[currency] }))
+    .filter((entry) => Number.isFinite(entry.rate) && entry.rate > 0)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+}
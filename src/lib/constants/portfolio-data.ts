@@ -1,21 +1,29 @@
 // Presentation-only constants. Portfolio tokens and transactions are stored in Convex.
+// Shared by Convex functions: keep this module free of runtime imports.
 
-export const CATEGORY_COLORS = {
-  Btc: '#F7931A',
-  Eth: '#627EEA',
-  AI: '#0F766E',
-  'Gaming/Meme': '#7C3AED',
-  Defi: '#0284C7',
-  Micro: '#BE185D',
-  Privacy: '#475569',
-} as const;
+import type { CategoryDefinition } from '@/lib/types/portfolio';
 
-export const CATEGORY_NAMES = {
-  Btc: 'Bitcoin',
-  Eth: 'Ethereum',
-  AI: 'Artificial Intelligence',
-  'Gaming/Meme': 'Gaming & Meme',
-  Defi: 'DeFi',
-  Micro: 'Micro Cap',
-  Privacy: 'Privacy',
-} as const;
+// Categories a portfolio uses until it stores its own (see convex/categories.ts)
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: 'Btc', name: 'Bitcoin', color: '#F7931A', sortOrder: 10, aggregateSymbol: 'BTC' },
+  { id: 'Eth', name: 'Ethereum', color: '#627EEA', sortOrder: 20, aggregateSymbol: 'ETH' },
+  { id: 'AI', name: 'Artificial Intelligence', color: '#0F766E', sortOrder: 30 },
+  { id: 'Gaming/Meme', name: 'Gaming & Meme', color: '#7C3AED', sortOrder: 40 },
+  { id: 'Defi', name: 'DeFi', color: '#0284C7', sortOrder: 50 },
+  { id: 'Micro', name: 'Micro Cap', color: '#BE185D', sortOrder: 60 },
+  { id: 'Privacy', name: 'Privacy', color: '#475569', sortOrder: 70 },
+];
+
+// Built-in category of the fund's uninvested USD position, always listed last
+export const CASH_CATEGORY: CategoryDefinition = {
+  id: 'Cash',
+  name: 'Cash',
+  color: '#65A30D',
+  sortOrder: Number.MAX_SAFE_INTEGER,
+};
+
+// Color of tokens whose category is not defined
+export const UNCATEGORIZED_COLOR = '#64748B';
+
+// Actor recorded in the audit log for changes made from the dashboard
+export const DASHBOARD_ACTOR = 'dashboard';
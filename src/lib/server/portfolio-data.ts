@@ -1,9 +1,15 @@
 import { ConvexHttpClient } from 'convex/browser'
 import { api } from '../../../convex/_generated/api'
-import { PortfolioSnapshot, TokenMetadata } from '@/lib/types/portfolio'
+import { FxRate, NavPoint, PortfolioInfo, PortfolioSnapshot, TokenMetadata } from '@/lib/types/portfolio'
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL
 
+// Portfolio used by API routes and the CLI when none is specified
+export const DEFAULT_PORTFOLIO_ID = 'default'
+
+// Slug serving the default portfolio when it has no entry in the portfolios table
+const SECRET_SLUG = process.env.PORTFOLIO_SECRET_SLUG || 'x7k9m2p-abc123-def456'
+
 function getConvexClient() {
   if (!convexUrl) {
     throw new Error('NEXT_PUBLIC_CONVEX_URL is not set')
@@ -11,18 +17,61 @@ function getConvexClient() {
   return new ConvexHttpClient(convexUrl)
 }
 
-export async function getPortfolioSnapshotServer(): Promise<PortfolioSnapshot> {
+/**
+ * Portfolio scope of an API request (`?portfolio=<id>`, defaults to the main fund)
+ */
+export function getPortfolioIdParam(url: URL): string {
+  return url.searchParams.get('portfolio') || DEFAULT_PORTFOLIO_ID
+}
+
+export async function getPortfolioBySlugServer(slug: string): Promise<PortfolioInfo | null> {
   const client = getConvexClient()
-  const snapshot = await client.query(api.portfolioData.getSnapshot, {})
+  const portfolio = await client.query(api.portfolios.getBySlug, { slug })
+  if (portfolio) return portfolio
+
+  if (slug === SECRET_SLUG) {
+    return { id: DEFAULT_PORTFOLIO_ID, slug, name: 'Portfolio' }
+  }
+
+  return null
+}
+
+export async function getPortfolioSnapshotServer(portfolioId: string = DEFAULT_PORTFOLIO_ID): Promise<PortfolioSnapshot> {
+  const client = getConvexClient()
+  const snapshot = await client.query(api.portfolioData.getSnapshot, { portfolioId })
 
   return {
     tokens: snapshot.tokens,
+    categories: snapshot.categories,
     transactions: snapshot.transactions,
+    investors: snapshot.investors,
     settings: snapshot.settings,
   }
 }
 
-export async function getPortfolioTokensServer(): Promise<TokenMetadata[]> {
-  const snapshot = await getPortfolioSnapshotServer()
+export async function getPortfolioTokensServer(portfolioId: string = DEFAULT_PORTFOLIO_ID): Promise<TokenMetadata[]> {
+  const snapshot = await getPortfolioSnapshotServer(portfolioId)
   return snapshot.tokens
 }
+
+/**
+ * Stored daily NAV entries (USD) in date order, up to `endDate` when given
+ */
+export async function getPortfolioDailyServer(
+  portfolioId: string = DEFAULT_PORTFOLIO_ID,
+  endDate?: string
+): Promise<NavPoint[]> {
+  const client = getConvexClient()
+  const entries = await client.query(api.portfolioDaily.list, { portfolioId, endDate })
+
+  return entries.map(entry => ({
+    date: entry.date,
+    portfolioValue: entry.portfolioValue,
+    totalShares: entry.totalShares,
+  }))
+}
+
+export async function getFxRatesServer(currency: string): Promise<FxRate[]> {
+  const client = getConvexClient()
+  return client.query(api.fxRates.list, { currency })
+}
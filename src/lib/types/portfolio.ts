@@ -1,8 +1,35 @@
-// Token categories
-export type TokenCategory = 'Btc' | 'Eth' | 'AI' | 'Gaming/Meme' | 'Defi' | 'Micro' | 'Privacy'
+// Independent fund tracked in the deployment, served at /portfolio/<slug>
+export interface PortfolioInfo {
+  id: string                   // portfolioId scoping tokens, transactions, settings and daily NAV
+  slug: string                 // Secret route slug
+  name: string
+}
+
+// Category ID from the portfolio's categories ('Cash' is reserved for the fund's uninvested USD position)
+export type TokenCategory = string
+
+// User-defined category stored in Convex (portfolioCategories)
+export interface CategoryDefinition {
+  id: TokenCategory            // Referenced by TokenMetadata.category and tags (e.g. 'Btc', 'RWA')
+  name: string                 // Display name
+  color: string                // Hex color used in charts and badges
+  sortOrder: number            // Ascending display order
+  targetWeight?: number        // Target share of portfolio value as decimal (0.5 = 50%)
+  tolerance?: number           // Allowed drift from target as decimal (0.05 = ±5 points)
+  aggregateSymbol?: string     // Tokens in this category collapse into one line with this symbol (e.g. 'BTC')
+}
 
-// Special calculation types
-export type SpecialCalculationType = 'ETH_AMOUNT' | 'BTC_AMOUNT' | 'REGULAR'
+// Conversion ratio in effect from `date` (YYYY-MM-DD); values between entries are interpolated
+export interface PriceProxyRatio {
+  date: string
+  ratio: number                // Reference asset units per token (e.g. BTC per ETF share)
+}
+
+// Token valued through another asset's price instead of its own
+export interface PriceProxy {
+  priceId: string              // CoinGecko ID whose price is used (e.g. 'bitcoin')
+  ratios?: PriceProxyRatio[]   // Omitted: 1 token = 1 reference unit
+}
 
 // Preferred API for price fetching
 export type PreferredAPI = 'coingecko' | 'coinmarketcap'
@@ -12,35 +39,119 @@ export interface TokenMetadata {
   id: string                    // CoinGecko ID (e.g., 'bitcoin', 'ethereum')
   symbol: string               // Token symbol (e.g., 'BTC', 'ETH')
   name: string                 // Full token name
-  category: TokenCategory      // Portfolio category
+  category: TokenCategory      // Primary category: each token counts towards exactly one
+  tags?: TokenCategory[]       // Additional categories for overlapping exposure views
+  targetWeight?: number        // Target share of portfolio value as decimal, overrides its category's split
+  tolerance?: number           // Allowed drift from target as decimal
   cmcSymbol?: string           // CoinMarketCap symbol for API fallback
   preferredAPI: PreferredAPI   // Preferred API for price fetching
-  specialCalculation?: SpecialCalculationType
+  priceProxy?: PriceProxy      // Priced via another token (wrappers, ETFs, staked assets)
 }
 
 // Transaction types for fund accounting
-export type TransactionType = 'DEPOSIT' | 'WITHDRAW' | 'BUY' | 'SELL'
+// INCOME/REWARD/AIRDROP add tokens to holdings without touching cash
+// SWAP exchanges one token for another without a cash leg
+export type TransactionType =
+  | 'DEPOSIT'
+  | 'WITHDRAW'
+  | 'BUY'
+  | 'SELL'
+  | 'FEE'
+  | 'INCOME'
+  | 'REWARD'
+  | 'AIRDROP'
+  | 'SWAP'
+
+// Origin of a transaction's quota value
+// manual: typed in, daily: previous day's portfolioDaily NAV,
+// historical: NAV from historical prices, initial: no shares outstanding yet
+export type QuotaValueSource = 'manual' | 'daily' | 'historical' | 'initial'
 
 // Transaction record for fund tracking
 export interface Transaction {
   id: string                   // Unique transaction ID
   date: string                 // ISO date string (e.g., '2025-07-02')
+  timestamp?: string           // Full ISO timestamp within `date` (e.g., '2025-07-02T14:30:00Z')
+  sequence?: number            // Explicit in-day order, breaks ties between equal timestamps
   type: TransactionType
-  tokenSymbol?: string         // Required for BUY/SELL, undefined for DEPOSIT/WITHDRAW
-  amount: number               // Token amount for BUY/SELL, USD for DEPOSIT/WITHDRAW
+  tokenSymbol?: string         // Required for BUY/SELL/INCOME/REWARD/AIRDROP, undefined for DEPOSIT/WITHDRAW
+  fromSymbol?: string          // SWAP: token given up
+  fromAmount?: number          // SWAP: amount of fromSymbol given up
+  toSymbol?: string            // SWAP: token received
+  toAmount?: number            // SWAP: amount of toSymbol received
+  investorId?: string          // Contributor for DEPOSIT/WITHDRAW, undefined for BUY/SELL
+  amount: number               // Token amount for BUY/SELL (toAmount for SWAP), USD (or `currency`) for DEPOSIT/WITHDRAW/FEE
+  currency?: string            // DEPOSIT/WITHDRAW: ISO currency of `amount` when not USD (e.g., 'EUR')
+  fxRateAtTransaction?: number // DEPOSIT/WITHDRAW: `currency` units per USD used to derive usdValue
+  lotIds?: string[]            // SELL/SWAP: lots to dispose of first (SPECIFIC matching)
   priceAtTransaction?: number  // USD price per token at transaction time
   quotaValueAtTransaction?: number // Share value at DEPOSIT/WITHDRAW time
-  usdValue: number             // Total USD value of transaction
+  quotaValueSource?: QuotaValueSource // How quotaValueAtTransaction was obtained
+  usdValue: number             // Total USD value of transaction (fair value at receipt for income/SWAP)
+  voidedAt?: string            // ISO timestamp the entry was voided; voided entries are kept but ignored
+  voidReason?: string          // Why the entry was voided
 }
 
+// Fund contributor (family member, partner, ...)
+export interface Investor {
+  id: string                   // Unique investor ID referenced by transactions
+  name: string                 // Display name
+}
+
+// How often accrued fees are crystallized (posted as FEE transactions)
+export type FeeCrystallization = 'MONTHLY' | 'QUARTERLY' | 'ANNUAL'
+
+// Cost basis assigned to tokens received as income (staking rewards, airdrops, interest)
+export type IncomeCostBasis = 'ZERO' | 'FAIR_VALUE'
+
+// How disposals (SELL/SWAP) are matched against acquisition lots
+export type LotMatchingMethod = 'AVERAGE' | 'FIFO' | 'LIFO' | 'HIFO' | 'SPECIFIC'
+
 export interface PortfolioSettings {
   baselineTotalValue: number
   initialQuotaValue: number
+  reportingCurrency?: string   // ISO currency used for presentation (defaults to USD)
+  managementFeeRate?: number   // Yearly management fee as decimal (0.02 = 2%)
+  performanceFeeRate?: number  // Performance fee above high-water mark as decimal (0.2 = 20%)
+  feeCrystallization?: FeeCrystallization // Defaults to ANNUAL
+  incomeCostBasis?: IncomeCostBasis // Defaults to FAIR_VALUE
+  lotMatchingMethod?: LotMatchingMethod // Defaults to AVERAGE
+}
+
+// Options for replaying the ledger through the lot engine
+export interface CostBasisOptions {
+  incomeCostBasis?: IncomeCostBasis
+  lotMatchingMethod?: LotMatchingMethod
+}
+
+// Acquisition lot (one per BUY/INCOME/REWARD/AIRDROP/SWAP-in transaction)
+export interface Lot {
+  id: string                   // Acquiring transaction ID, referenced by SELL/SWAP lotIds
+  symbol: string
+  acquiredDate: string
+  originalAmount: number
+  amount: number               // Amount still held
+  unitCost: number             // USD cost per token at acquisition
+  costBasis: number            // Cost basis of the remaining amount
+}
+
+// Portion of a lot consumed by a disposal
+export interface LotDisposal {
+  transactionId: string        // Disposing SELL/SWAP transaction
+  lotId: string
+  symbol: string
+  acquiredDate: string
+  disposedDate: string
+  amount: number
+  costBasis: number
+  proceeds: number             // Share of the disposal's USD proceeds
 }
 
 export interface PortfolioSnapshot {
   tokens: TokenMetadata[]
+  categories: CategoryDefinition[]
   transactions: Transaction[]
+  investors: Investor[]
   settings: PortfolioSettings | null
 }
 
@@ -50,6 +161,191 @@ export interface FundState {
   quotaValue: number           // Current quota value (portfolio value / shares)
   cashBalance: number          // USD cash in the fund
   holdings: Map<string, number> // tokenSymbol -> token amount
+  investors: Map<string, InvestorLedger> // investorId -> share ledger
+}
+
+// Share ledger of a single investor after processing transactions
+export interface InvestorLedger {
+  shares: number               // Shares currently owned
+  contributedCapital: number   // Total USD deposited
+  withdrawnCapital: number     // Total USD withdrawn
+}
+
+// Investor stake valued at a given quota value
+export interface InvestorPosition extends InvestorLedger {
+  investorId: string
+  name: string
+  currentValue: number         // shares * quota value
+  ownership: number            // % of total shares outstanding
+  pnl: number                  // currentValue + withdrawn - contributed
+}
+
+// Quota value derived for a DEPOSIT/WITHDRAW date
+export interface QuotaValueResolution {
+  quotaValue: number
+  source: QuotaValueSource
+}
+
+// Daily NAV observation (portfolioDaily row or live point)
+export interface NavPoint {
+  date: string
+  portfolioValue: number
+  totalShares: number
+}
+
+// Result of replaying daily NAV through the fee engine
+export interface FeeAccrualResult {
+  feeTransactions: Transaction[]   // Crystallized fees, ready to post to the ledger
+  accruedManagementFee: number     // Pending (not yet crystallized) management fee
+  accruedPerformanceFee: number    // Pending (not yet crystallized) performance fee
+  totalManagementFees: number      // Crystallized management fees
+  totalPerformanceFees: number     // Crystallized performance fees
+  highWaterMark: number            // Highest net quota value on which performance fee was paid
+  grossQuotaValue: number          // Quota value before any fees
+  netQuotaValue: number            // Quota value after crystallized and accrued fees
+}
+
+// Dated cash flow from the investors' point of view: money in is negative, money out positive
+export interface CashFlow {
+  date: string
+  amount: number
+}
+
+// Money-weighted (XIRR) return over a period, rates as decimals
+export interface MoneyWeightedReturn {
+  startDate: string                // First cash flow (first deposit, or the period start)
+  endDate: string
+  startValue: number               // NAV carried in at the period start (0 since inception)
+  endValue: number                 // NAV at endDate, treated as a final withdrawal
+  netContributions: number         // Deposits minus withdrawals within the period
+  gain: number                     // endValue - startValue - netContributions
+  annualizedReturn: number | null  // XIRR; null when no rate solves the cash flows
+  periodReturn: number | null      // XIRR compounded over the period's length
+}
+
+// Quota value observed on a day (portfolioValue / totalShares of a NAV point)
+export interface QuotaPoint {
+  date: string
+  quotaValue: number
+}
+
+// One peak-to-recovery episode of the quota value, depth as a decimal below the peak
+export interface DrawdownPeriod {
+  peakDate: string
+  troughDate: string
+  recoveryDate: string | null      // First day back at the peak; null while still under water
+  depth: number                    // 0.35 = trough 35% below the peak
+  durationDays: number             // Peak to recovery, or to the last observation
+  recoveryDays: number | null      // Trough to recovery
+}
+
+// Risk statistics of a quota series; returns and rates as decimals, ratios annualized
+export interface RiskStatistics {
+  startDate: string
+  endDate: string
+  observations: number             // Daily returns the statistics are based on
+  totalReturn: number
+  annualizedReturn: number
+  volatility: number               // Annualized standard deviation of daily returns
+  sharpeRatio: number | null       // null when volatility is zero
+  sortinoRatio: number | null      // null without downside returns
+  maxDrawdown: DrawdownPeriod | null
+  longestDrawdownDays: number
+  currentDrawdown: number          // Depth below the running peak on endDate
+  valueAtRisk: number              // Historical one-day loss not exceeded at `confidence`
+  conditionalValueAtRisk: number   // Average one-day loss beyond the VaR
+  confidence: number
+  riskFreeRate: number
+}
+
+// Stored daily close of a benchmark asset (benchmarkPrices row)
+export interface BenchmarkPrice {
+  priceId: string              // CoinGecko ID
+  date: string
+  price: number                // USD
+}
+
+// Asset held in a benchmark with its starting weight (weights sum to 1)
+export interface BenchmarkComponent {
+  priceId: string
+  weight: number
+  token?: TokenMetadata        // Registered token: priced through its proxy ratio, if any
+}
+
+// Buy-and-hold basket the fund is compared against
+export interface BenchmarkDefinition {
+  id: string                   // e.g. 'btc', 'btc-eth', 'token:SOL'
+  label: string
+  components: BenchmarkComponent[]
+}
+
+// Growth of a benchmark on a day, rebased to 1 at the start of the range
+export interface BenchmarkPoint {
+  date: string
+  value: number
+}
+
+// Fund quota vs benchmark over the days both have data; returns as decimals
+export interface BenchmarkComparison {
+  startDate: string
+  endDate: string
+  fundReturn: number
+  benchmarkReturn: number
+  excessReturn: number         // fundReturn - benchmarkReturn
+  beta: number | null          // Sensitivity of daily fund returns to the benchmark's
+  alpha: number | null         // Annualized daily return not explained by beta (Jensen's alpha, 0% risk-free)
+}
+
+// Trailing and calendar periods of the returns table (ITD: since inception)
+export type ReturnPeriod = 'MTD' | 'QTD' | 'YTD' | '1M' | '3M' | '6M' | '1Y' | 'ITD'
+
+// Quota return over one period, as a decimal
+export interface PeriodReturn {
+  period: ReturnPeriod
+  startDate: string            // Day whose closing quota opens the period
+  endDate: string
+  return: number
+  sinceInception: boolean      // The fund started after startDate, so the return runs from the initial quota
+}
+
+// One year of the monthly returns heatmap; null for months outside the fund's history
+export interface MonthlyReturnsRow {
+  year: number
+  months: (number | null)[]    // January..December, as decimals
+  total: number | null         // Compounded year (year to date for the current year)
+}
+
+// A token's share of the quota return over an attribution period
+export interface TokenAttribution {
+  symbol: string
+  category: TokenCategory      // Primary category
+  startValue: number           // Position value at the start close
+  endValue: number             // Position value at the end close
+  netPurchases: number         // BUY/SWAP-in minus SELL/SWAP-out value traded within the period
+  pnl: number                  // endValue - startValue - netPurchases (income received counts as gain)
+  averageWeight: number        // Mean share of NAV at the start of each day, as decimal
+  contribution: number         // Quota return points from this position, as decimal
+}
+
+export interface CategoryAttribution {
+  category: TokenCategory
+  pnl: number
+  averageWeight: number
+  contribution: number
+}
+
+// Quota return over a range split by position; contributions, fees and other sum to quotaReturn
+export interface PerformanceAttribution {
+  startDate: string            // Close the period starts from
+  endDate: string
+  startQuotaValue: number
+  endQuotaValue: number
+  quotaReturn: number
+  tokens: TokenAttribution[]   // Largest absolute contribution first
+  categories: CategoryAttribution[]
+  fees: number                 // Contribution of FEE transactions (negative)
+  other: number                // Flows priced away from the day's quota and rounding
+  unpricedSymbols: string[]    // Held tokens without a stored close, valued at their last trade price
 }
 
 // Portfolio item with current data
@@ -57,15 +353,110 @@ export interface PortfolioItem {
   token: TokenMetadata
   amount: number               // Token amount held (from transactions)
   currentPrice: number         // Current USD price
+  referenceAmount?: number     // Amount in the price proxy's asset (amount × ratio)
   currentValue: number         // Calculated current USD value
   percentage: number           // % of total portfolio
   performance: number          // % change from cost basis
   costBasis: number            // Total cost basis from transactions
+  income?: number              // USD fair value of tokens received as income
+  realizedPnl?: number         // Locked-in P&L from SELL/SWAP disposals
   change24h?: number           // 24-hour price change percentage
   marketCap?: number           // Market capitalization
   fdv?: number                 // Fully Diluted Valuation
 }
 
+// Holding-period classification of a disposal (long term: held more than one year)
+export type HoldingTerm = 'SHORT' | 'LONG'
+
+// One line of the capital gains report (one consumed lot portion)
+export interface CapitalGainsRow {
+  transactionId: string
+  lotId: string
+  symbol: string
+  description: string          // e.g. '0.5 ETH'
+  acquiredDate: string
+  disposedDate: string
+  amount: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  term: HoldingTerm
+}
+
+// Ledger integrity check results
+export type LedgerIssueCode =
+  | 'malformed-date'
+  | 'duplicate-id'
+  | 'missing-token'
+  | 'unknown-token'
+  | 'oversell'
+  | 'over-redeem'
+  | 'negative-cash'
+  | 'value-mismatch'
+
+export interface LedgerIssue {
+  transactionId: string
+  code: LedgerIssueCode
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// Differences between a local snapshot file and the stored portfolio, keyed by
+// token symbol / transaction ID / investor ID
+export interface RecordChange {
+  key: string
+  fields: string[]             // Fields whose value differs
+}
+
+export interface RecordDiff {
+  added: string[]
+  changed: RecordChange[]
+  removed: string[]            // Stored but missing from the file
+}
+
+export interface SnapshotDiff {
+  tokens: RecordDiff
+  transactions: RecordDiff
+  investors: RecordDiff
+  settings: string[]           // Changed settings fields
+  invalidateFromDate: string | null // Earliest date whose daily snapshots are affected
+}
+
+// Token fully sold/swapped away, kept for its realized P&L
+export interface ExitedPosition {
+  symbol: string
+  name: string
+  realizedPnl: number
+}
+
+// Actual vs target weight of a category or token (weights as decimals of portfolio value)
+export interface AllocationDrift {
+  scope: 'category' | 'token'
+  id: string                   // Category ID or token symbol
+  actualWeight: number
+  targetWeight: number
+  drift: number                // actualWeight - targetWeight
+  tolerance: number
+  outOfBand: boolean           // |drift| > tolerance
+}
+
+// Trade that moves a token back to its target value
+export interface RebalanceTrade {
+  symbol: string
+  type: 'BUY' | 'SELL'
+  amount: number               // Token units at `price`
+  price: number
+  value: number                // Trade value in the portfolio's currency
+}
+
+export interface RebalancePlan {
+  drifts: AllocationDrift[]
+  trades: RebalanceTrade[]
+  cashBefore: number
+  cashAfter: number
+  unfundedValue: number        // Buys left out because cash plus sells could not cover them
+}
+
 // Category aggregation for charts
 export interface CategoryData {
   category: TokenCategory
@@ -86,6 +477,9 @@ export interface PortfolioSummary {
   initialQuotaValue: number    // Initial quota value (typically $1.00)
   totalShares: number          // Total shares outstanding
   quotaPerformance: number     // Quota-based performance percentage
+  totalIncome: number          // USD fair value of all income received (incl. exited tokens)
+  realizedPnl: number          // Realized P&L across all tokens (incl. exited tokens)
+  unrealizedPnl: number        // Current value minus cost basis of open positions
 }
 
 // API response types
@@ -97,6 +491,12 @@ export interface CoinGeckoPriceResponse {
 }
 
 // Extended price data interface
+// Daily FX rate: units of a currency per 1 USD
+export interface FxRate {
+  date: string                 // YYYY-MM-DD
+  rate: number
+}
+
 export interface PriceData {
   price: number
   change24h?: number
@@ -0,0 +1,264 @@
+import { addDays, format, parseISO } from 'date-fns'
+import {
+  BenchmarkPrice,
+  CategoryAttribution,
+  FundState,
+  PerformanceAttribution,
+  TokenAttribution,
+  TokenMetadata,
+  Transaction
+} from '@/lib/types/portfolio'
+import { CASH_TOKEN } from '@/lib/utils/calculations'
+import { filterTransactionsByDate, processTransactions } from '@/lib/utils/fund-calculations'
+import { getPriceRatio, getPricingId } from '@/lib/utils/portfolio-pricing'
+
+export interface AttributionOptions {
+  startDate: string
+  endDate: string
+  initialQuotaValue?: number   // USD, as stored in settings
+  // Reporting currency units per USD on a date; the ledger and closes stay in USD
+  rateOn?: (date: string) => number
+}
+
+interface PositionTotals {
+  startValue: number
+  endValue: number
+  netPurchases: number
+  pnl: number
+  weightSum: number
+  contributionPerShare: number
+}
+
+function nextDay(date: string): string {
+  return format(addDays(parseISO(date), 1), 'yyyy-MM-dd')
+}
+
+// Value traded into (positive) or out of (negative) each token by one transaction
+function getTradeFlows(tx: Transaction): [string, number][] {
+  switch (tx.type) {
+    case 'BUY':
+      return tx.tokenSymbol ? [[tx.tokenSymbol, tx.usdValue]] : []
+    case 'SELL':
+      return tx.tokenSymbol ? [[tx.tokenSymbol, -tx.usdValue]] : []
+    case 'SWAP':
+      return tx.fromSymbol && tx.toSymbol
+        ? [[tx.fromSymbol, -tx.usdValue], [tx.toSymbol, tx.usdValue]]
+        : []
+    default:
+      return []
+  }
+}
+
+// Unit price implied by a transaction, used for tokens without a stored close
+function getTradePrices(tx: Transaction): [string, number][] {
+  const unitPrice = (amount: number | undefined) => (amount && amount > 0 ? tx.usdValue / amount : 0)
+  switch (tx.type) {
+    case 'BUY':
+    case 'SELL':
+    case 'INCOME':
+    case 'REWARD':
+    case 'AIRDROP':
+      return tx.tokenSymbol ? [[tx.tokenSymbol, tx.priceAtTransaction ?? unitPrice(tx.amount)]] : []
+    case 'SWAP':
+      return tx.fromSymbol && tx.toSymbol
+        ? [[tx.fromSymbol, unitPrice(tx.fromAmount)], [tx.toSymbol, unitPrice(tx.toAmount ?? tx.amount)]]
+        : []
+    default:
+      return []
+  }
+}
+
+/**
+ * Split the quota return between `startDate`'s close and `endDate`'s close by position.
+ *
+ * Each day replays the ledger to that day's close (`processTransactions`) and values the
+ * holdings at stored daily closes. A position's P&L for the day is its change in value less
+ * the value traded into it that day, so positions bought or sold mid-period only count
+ * while held. Daily P&L per share, divided by the starting quota, adds up across days to
+ * each position's contribution; the contributions, fees and `other` sum to the quota return.
+ *
+ * Holdings and cash are replayed from the USD ledger and converted at each day's rate, so
+ * NAV matches the stored history in the reporting currency. Cash held through a rate move
+ * shows up as the cash position's P&L (always zero in USD).
+ */
+export function calculatePerformanceAttribution(
+  transactions: Transaction[],
+  tokens: TokenMetadata[],
+  prices: BenchmarkPrice[],
+  options: AttributionOptions
+): PerformanceAttribution {
+  const { startDate, endDate } = options
+  const initialQuotaValue = options.initialQuotaValue ?? 1
+  const rateOn = options.rateOn ?? (() => 1)
+
+  const tokensBySymbol = new Map(tokens.map(token => [token.symbol, token]))
+  const closesByPriceId = new Map<string, BenchmarkPrice[]>()
+  prices.forEach(price => {
+    closesByPriceId.set(price.priceId, [...(closesByPriceId.get(price.priceId) || []), price])
+  })
+  closesByPriceId.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)))
+
+  const ledger = filterTransactionsByDate(transactions, endDate)
+  const transactionsByDate = new Map<string, Transaction[]>()
+  ledger.forEach(tx => {
+    transactionsByDate.set(tx.date, [...(transactionsByDate.get(tx.date) || []), tx])
+  })
+
+  // Latest close on or before `date`, else the last price the token traded at
+  const lastTradePrice = new Map<string, number>()
+  const unpriced = new Set<string>()
+  const recordTradePrices = (tx: Transaction) =>
+    getTradePrices(tx).forEach(([symbol, price]) => price > 0 && lastTradePrice.set(symbol, price * rateOn(tx.date)))
+  ledger.filter(tx => tx.date <= startDate).forEach(recordTradePrices)
+
+  const priceOn = (symbol: string, date: string): number => {
+    const token = tokensBySymbol.get(symbol)
+    const closes = token ? closesByPriceId.get(getPricingId(token)) || [] : []
+    let low = 0
+    let high = closes.length - 1
+    let match = -1
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (closes[mid].date <= date) {
+        match = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    if (token && match >= 0) return closes[match].price * getPriceRatio(token, date) * rateOn(date)
+
+    unpriced.add(symbol)
+    return lastTradePrice.get(symbol) ?? 0
+  }
+
+  // Token positions plus cash, in the reporting currency at the day's rate
+  const valuePositions = (state: FundState, date: string) => {
+    const values = new Map<string, number>()
+    state.holdings.forEach((amount, symbol) => {
+      if (amount !== 0) values.set(symbol, amount * priceOn(symbol, date))
+    })
+    if (state.cashBalance !== 0) values.set(CASH_TOKEN.symbol, state.cashBalance * rateOn(date))
+    return values
+  }
+  const sumValues = (values: Map<string, number>) => Array.from(values.values()).reduce((sum, value) => sum + value, 0)
+
+  // Initial quota restated at the inception rate, as in convertSettings
+  const reportingInitialQuotaValue = initialQuotaValue * rateOn(ledger[0]?.date ?? startDate)
+
+  let previousState = processTransactions(ledger, startDate, initialQuotaValue)
+  let previousValues = valuePositions(previousState, startDate)
+  let previousNav = sumValues(previousValues)
+  const startQuotaValue =
+    previousState.totalShares > 0 ? previousNav / previousState.totalShares : reportingInitialQuotaValue
+  let previousQuotaValue = startQuotaValue
+
+  const totals = new Map<string, PositionTotals>()
+  const getTotals = (symbol: string): PositionTotals => {
+    let entry = totals.get(symbol)
+    if (!entry) {
+      entry = { startValue: 0, endValue: 0, netPurchases: 0, pnl: 0, weightSum: 0, contributionPerShare: 0 }
+      totals.set(symbol, entry)
+    }
+    return entry
+  }
+  previousValues.forEach((value, symbol) => {
+    getTotals(symbol).startValue = value
+  })
+
+  let feesPerShare = 0
+  let otherPerShare = 0
+  let days = 0
+
+  for (let date = nextDay(startDate); date <= endDate; date = nextDay(date)) {
+    const dayTransactions = transactionsByDate.get(date) || []
+    dayTransactions.forEach(recordTradePrices)
+    const rate = rateOn(date)
+
+    const state = processTransactions(ledger, date, initialQuotaValue)
+    const values = valuePositions(state, date)
+    const nav = sumValues(values)
+    const quotaValue = state.totalShares > 0 ? nav / state.totalShares : previousQuotaValue
+
+    // Flows on the day come in at the opening quota, so the day's P&L is shared by the closing shares
+    const sharesOutstanding = state.totalShares > 0 ? state.totalShares : previousState.totalShares
+
+    // Cash moved by the day's transactions (deposits, trades, fees) is a flow, not cash P&L
+    const tradedValue = new Map<string, number>()
+    dayTransactions.forEach(tx =>
+      getTradeFlows(tx).forEach(([symbol, value]) => tradedValue.set(symbol, (tradedValue.get(symbol) || 0) + value * rate))
+    )
+    const cashMoved = (state.cashBalance - previousState.cashBalance) * rate
+    if (cashMoved !== 0) tradedValue.set(CASH_TOKEN.symbol, cashMoved)
+    const fees = dayTransactions.filter(tx => tx.type === 'FEE').reduce((sum, tx) => sum + tx.usdValue * rate, 0)
+
+    let explainedPerShare = 0
+    const symbols = new Set([...Array.from(previousValues.keys()), ...Array.from(values.keys()), ...Array.from(tradedValue.keys())])
+    symbols.forEach(symbol => {
+      const entry = getTotals(symbol)
+      const openingValue = previousValues.get(symbol) || 0
+      const traded = tradedValue.get(symbol) || 0
+      const pnl = (values.get(symbol) || 0) - openingValue - traded
+
+      entry.netPurchases += traded
+      entry.pnl += pnl
+      if (previousNav > 0) entry.weightSum += openingValue / previousNav
+      if (sharesOutstanding > 0) {
+        entry.contributionPerShare += pnl / sharesOutstanding
+        explainedPerShare += pnl / sharesOutstanding
+      }
+    })
+
+    if (sharesOutstanding > 0) {
+      feesPerShare -= fees / sharesOutstanding
+      otherPerShare += quotaValue - previousQuotaValue - explainedPerShare + fees / sharesOutstanding
+    }
+
+    previousState = state
+    previousValues = values
+    previousNav = nav
+    previousQuotaValue = quotaValue
+    days += 1
+  }
+
+  previousValues.forEach((value, symbol) => {
+    getTotals(symbol).endValue = value
+  })
+
+  const tokenAttributions: TokenAttribution[] = Array.from(totals.entries())
+    .filter(([symbol, entry]) => symbol !== CASH_TOKEN.symbol || entry.pnl !== 0)
+    .map(([symbol, entry]) => ({
+      symbol,
+      category: symbol === CASH_TOKEN.symbol ? CASH_TOKEN.category : tokensBySymbol.get(symbol)?.category ?? symbol,
+      startValue: entry.startValue,
+      endValue: entry.endValue,
+      netPurchases: entry.netPurchases,
+      pnl: entry.pnl,
+      averageWeight: days > 0 ? entry.weightSum / days : 0,
+      contribution: entry.contributionPerShare / startQuotaValue
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+
+  const categoryMap = new Map<string, CategoryAttribution>()
+  tokenAttributions.forEach(token => {
+    const entry = categoryMap.get(token.category) ?? { category: token.category, pnl: 0, averageWeight: 0, contribution: 0 }
+    entry.pnl += token.pnl
+    entry.averageWeight += token.averageWeight
+    entry.contribution += token.contribution
+    categoryMap.set(token.category, entry)
+  })
+
+  const heldSymbols = new Set(Array.from(totals.keys()))
+  return {
+    startDate,
+    endDate,
+    startQuotaValue,
+    endQuotaValue: previousQuotaValue,
+    quotaReturn: previousQuotaValue / startQuotaValue - 1,
+    tokens: tokenAttributions,
+    categories: Array.from(categoryMap.values()).sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+    fees: feesPerShare / startQuotaValue,
+    other: otherPerShare / startQuotaValue,
+    unpricedSymbols: Array.from(unpriced).filter(symbol => heldSymbols.has(symbol)).sort()
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  BenchmarkComparison,
+  BenchmarkDefinition,
+  BenchmarkPoint,
+  BenchmarkPrice,
+  QuotaPoint,
+  TokenMetadata
+} from '@/lib/types/portfolio'
+import { getPriceRatio, getPricingId } from '@/lib/utils/portfolio-pricing'
+import { calculatePeriodReturns, TRADING_DAYS_PER_YEAR } from '@/lib/utils/risk-statistics'
+
+export const BENCHMARK_PRESETS: BenchmarkDefinition[] = [
+  { id: 'btc', label: 'BTC', components: [{ priceId: 'bitcoin', weight: 1 }] },
+  { id: 'eth', label: 'ETH', components: [{ priceId: 'ethereum', weight: 1 }] },
+  {
+    id: 'btc-eth',
+    label: 'BTC/ETH 50-50',
+    components: [
+      { priceId: 'bitcoin', weight: 0.5 },
+      { priceId: 'ethereum', weight: 0.5 }
+    ]
+  }
+]
+
+/**
+ * Benchmark that holds a single registered token
+ */
+export function createTokenBenchmark(token: TokenMetadata): BenchmarkDefinition {
+  return {
+    id: `token:${token.symbol}`,
+    label: token.symbol,
+    components: [{ priceId: getPricingId(token), weight: 1, token }]
+  }
+}
+
+export function getBenchmarkPriceIds(benchmark: BenchmarkDefinition): string[] {
+  return Array.from(new Set(benchmark.components.map(component => component.priceId)))
+}
+
+/**
+ * Growth of the benchmark on each of `dates`, as if its weights were bought on the first date
+ * where every component has a price and then held (no rebalancing). Days without a stored
+ * close use the previous one; dates before the start are left out.
+ */
+export function buildBenchmarkSeries(
+  benchmark: BenchmarkDefinition,
+  prices: BenchmarkPrice[],
+  dates: string[]
+): BenchmarkPoint[] {
+  const byPriceId = new Map<string, BenchmarkPrice[]>()
+  prices.forEach(price => {
+    byPriceId.set(price.priceId, [...(byPriceId.get(price.priceId) || []), price])
+  })
+  byPriceId.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)))
+
+  const cursors = new Map<string, number>()
+  const priceOn = (priceId: string, date: string): number | null => {
+    const list = byPriceId.get(priceId) || []
+    let index = cursors.get(priceId) ?? -1
+    while (index + 1 < list.length && list[index + 1].date <= date) index += 1
+    cursors.set(priceId, index)
+    return index >= 0 ? list[index].price : null
+  }
+
+  const points: BenchmarkPoint[] = []
+  let basePrices: number[] | null = null
+
+  for (const date of [...dates].sort()) {
+    const current = benchmark.components.map(component => {
+      const price = priceOn(component.priceId, date)
+      return price === null ? 0 : price * (component.token ? getPriceRatio(component.token, date) : 1)
+    })
+    if (current.some(price => price <= 0)) continue
+
+    const base: number[] = basePrices ?? current
+    basePrices = base
+    const value = benchmark.components.reduce(
+      (sum, component, index) => sum + component.weight * (current[index] / base[index]),
+      0
+    )
+    points.push({ date, value })
+  }
+
+  return points
+}
+
+/**
+ * Fund quota against a benchmark over their common dates, both rebased to the first of them.
+ * Returns null with fewer than two common dates.
+ */
+export function compareWithBenchmark(
+  fund: QuotaPoint[],
+  benchmark: BenchmarkPoint[]
+): BenchmarkComparison | null {
+  const benchmarkByDate = new Map(benchmark.map(point => [point.date, point.value]))
+  const fundSeries = fund.filter(point => benchmarkByDate.has(point.date))
+  if (fundSeries.length < 2) return null
+
+  const benchmarkSeries = fundSeries.map(point => ({ date: point.date, quotaValue: benchmarkByDate.get(point.date)! }))
+  const first = fundSeries[0]
+  const last = fundSeries[fundSeries.length - 1]
+  const fundReturn = last.quotaValue / first.quotaValue - 1
+  const benchmarkReturn =
+    benchmarkSeries[benchmarkSeries.length - 1].quotaValue / benchmarkSeries[0].quotaValue - 1
+
+  const fundReturns = calculatePeriodReturns(fundSeries)
+  const benchmarkReturns = calculatePeriodReturns(benchmarkSeries)
+  const fundMean = fundReturns.reduce((sum, value) => sum + value, 0) / fundReturns.length
+  const benchmarkMean = benchmarkReturns.reduce((sum, value) => sum + value, 0) / benchmarkReturns.length
+  const covariance = fundReturns.reduce(
+    (sum, value, index) => sum + (value - fundMean) * (benchmarkReturns[index] - benchmarkMean),
+    0
+  )
+  const variance = benchmarkReturns.reduce((sum, value) => sum + (value - benchmarkMean) ** 2, 0)
+  const beta = variance > 0 ? covariance / variance : null
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    fundReturn,
+    benchmarkReturn,
+    excessReturn: fundReturn - benchmarkReturn,
+    beta,
+    alpha: beta === null ? null : (fundMean - beta * benchmarkMean) * TRADING_DAYS_PER_YEAR
+  }
+}
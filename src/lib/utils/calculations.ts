@@ -1,32 +1,55 @@
-import { PortfolioItem, TokenMetadata, PerformanceResult, PriceData } from '@/lib/types/portfolio'
+import {
+  PortfolioItem,
+  TokenMetadata,
+  PerformanceResult,
+  PriceData,
+  CategoryData,
+  CategoryDefinition
+} from '@/lib/types/portfolio'
+import { getTokenCategories } from '@/lib/utils/categories'
+import { getPriceRatio, getPricingId, getTokenPrice } from '@/lib/utils/portfolio-pricing'
 
 /**
- * Calculate current value based on special calculation rules
+ * Pseudo-token used to list the fund's uninvested USD as a portfolio position
+ */
+export const CASH_TOKEN: TokenMetadata = {
+  id: 'usd-cash',
+  symbol: 'USD',
+  name: 'Cash',
+  category: 'Cash',
+  preferredAPI: 'coingecko'
+}
+
+export function isCashItem(item: PortfolioItem): boolean {
+  return item.token.id === CASH_TOKEN.id
+}
+
+/**
+ * Create the cash position from the fund's cash balance (valued 1:1, no performance)
+ */
+export function createCashItem(cashBalance: number): PortfolioItem {
+  return {
+    token: CASH_TOKEN,
+    amount: cashBalance,
+    currentPrice: 1,
+    currentValue: cashBalance,
+    percentage: 0, // Will be calculated later
+    performance: 0,
+    costBasis: cashBalance
+  }
+}
+
+/**
+ * Calculate current value, pricing proxied tokens through their reference asset
  * Amount is passed as a parameter (derived from transactions)
  */
 export function calculateCurrentValue(
   token: TokenMetadata,
   amount: number,
-  currentPrices: Record<string, PriceData>
+  currentPrices: Record<string, PriceData>,
+  date?: string
 ): number {
-  switch (token.specialCalculation) {
-    case 'ETH_AMOUNT': {
-      // For ETHW, ETHA, Staked ETH - use current ETH price
-      const ethPrice = currentPrices['ethereum']?.price || 0
-      return amount * ethPrice
-    }
-    case 'BTC_AMOUNT': {
-      // For BITB - use current BTC price
-      const btcPrice = currentPrices['bitcoin']?.price || 0
-      return amount * btcPrice
-    }
-    case 'REGULAR':
-    default: {
-      // Regular calculation: amount * current price
-      const currentPrice = currentPrices[token.id]?.price || 0
-      return amount * currentPrice
-    }
-  }
+  return amount * getTokenPrice(token, currentPrices, date)
 }
 
 /**
@@ -67,9 +90,14 @@ export function calculatePercentages(items: PortfolioItem[]): PortfolioItem[] {
 }
 
 /**
- * Aggregate data by category
+ * Aggregate data by category, in the categories' sort order (unknown categories last, largest first)
+ * With `includeTags` a token also counts towards each of its tags, so shares can add up to more than 100%
  */
-export function aggregateByCategory(items: PortfolioItem[]) {
+export function aggregateByCategory(
+  items: PortfolioItem[],
+  definitions: CategoryDefinition[] = [],
+  options: { includeTags?: boolean } = {}
+): CategoryData[] {
   const categories = new Map<string, {
     category: string
     totalValue: number
@@ -77,27 +105,34 @@ export function aggregateByCategory(items: PortfolioItem[]) {
   }>()
   
   items.forEach(item => {
-    const category = item.token.category
-    const existing = categories.get(category)
-    
-    if (existing) {
-      existing.totalValue += item.currentValue
-      existing.items.push(item)
-    } else {
-      categories.set(category, {
-        category,
-        totalValue: item.currentValue,
-        items: [item]
-      })
-    }
+    const itemCategories = options.includeTags ? getTokenCategories(item.token) : [item.token.category]
+
+    itemCategories.forEach(category => {
+      const existing = categories.get(category)
+
+      if (existing) {
+        existing.totalValue += item.currentValue
+        existing.items.push(item)
+      } else {
+        categories.set(category, {
+          category,
+          totalValue: item.currentValue,
+          items: [item]
+        })
+      }
+    })
   })
   
   const totalValue = items.reduce((sum, item) => sum + item.currentValue, 0)
+  const sortOrder = new Map(definitions.map(definition => [definition.id, definition.sortOrder]))
+  const orderOf = (category: string) => sortOrder.get(category) ?? Number.MAX_SAFE_INTEGER
   
-  return Array.from(categories.values()).map(cat => ({
-    ...cat,
-    percentage: totalValue > 0 ? (cat.totalValue / totalValue) * 100 : 0
-  }))
+  return Array.from(categories.values())
+    .map(cat => ({
+      ...cat,
+      percentage: totalValue > 0 ? (cat.totalValue / totalValue) * 100 : 0
+    }))
+    .sort((a, b) => orderOf(a.category) - orderOf(b.category) || b.totalValue - a.totalValue)
 }
 
 /**
@@ -130,23 +165,27 @@ export function get24hChange(
 /**
  * Create portfolio item from token metadata, holdings, cost basis, and current prices
  * Now receives amount and costBasis from transaction processing
+ * `date` picks the price proxy ratio (today when omitted)
  */
 export function createPortfolioItem(
   token: TokenMetadata,
   amount: number,
   costBasis: number,
-  currentPrices: Record<string, PriceData>
+  currentPrices: Record<string, PriceData>,
+  date?: string
 ): PortfolioItem {
-  const currentPrice = getCurrentPrice(token.id, currentPrices)
-  const currentValue = calculateCurrentValue(token, amount, currentPrices)
+  const pricingId = getPricingId(token)
+  const currentPrice = getTokenPrice(token, currentPrices, date)
+  const currentValue = amount * currentPrice
   const performance = calculatePerformance(currentValue, costBasis)
-  const change24h = get24hChange(token.id, currentPrices)
-  const priceData = currentPrices[token.id]
+  const change24h = get24hChange(pricingId, currentPrices)
+  const priceData = currentPrices[pricingId]
   
   return {
     token,
     amount,
     currentPrice,
+    referenceAmount: token.priceProxy ? amount * getPriceRatio(token, date) : undefined,
     currentValue,
     percentage: 0, // Will be calculated later
     performance: performance.performance,
@@ -158,88 +197,62 @@ export function createPortfolioItem(
 }
 
 /**
- * Aggregate Bitcoin and Ethereum categories into single lines for table display
+ * Collapse each category with an `aggregateSymbol` (by default Bitcoin and Ethereum)
+ * into a single line for display. Categories are matched by ID, so renaming one keeps it.
  */
-export function aggregateBitcoinEthereumCategories(items: PortfolioItem[]): PortfolioItem[] {
-  const aggregatedItems: PortfolioItem[] = []
-  const btcItems: PortfolioItem[] = []
-  const ethItems: PortfolioItem[] = []
+export function aggregateCategoryItems(items: PortfolioItem[], categories: CategoryDefinition[]): PortfolioItem[] {
+  const aggregatedCategories = categories.filter(category => category.aggregateSymbol)
+  const itemsByCategory = new Map<string, PortfolioItem[]>(aggregatedCategories.map(category => [category.id, []]))
   const otherItems: PortfolioItem[] = []
 
   // Separate items by category
   items.forEach(item => {
-    if (item.token.category === 'Btc') {
-      btcItems.push(item)
-    } else if (item.token.category === 'Eth') {
-      ethItems.push(item)
+    const group = itemsByCategory.get(item.token.category)
+    if (group) {
+      group.push(item)
     } else {
       otherItems.push(item)
     }
   })
 
-  // Create aggregated Bitcoin item
-  if (btcItems.length > 0) {
-    const totalBtcValue = btcItems.reduce((sum, item) => sum + item.currentValue, 0)
-    const totalBtcCostBasis = btcItems.reduce((sum, item) => sum + item.costBasis, 0)
-    const btcPerformance = calculatePerformance(totalBtcValue, totalBtcCostBasis)
-    const btcChange24h = btcItems[0].change24h // Use BTC 24h change from first item
-    
-    // Calculate total BTC amount
-    const totalBtcAmount = btcItems.reduce((sum, item) => sum + item.amount, 0)
-    
-    // Use the first BTC item as template, but with aggregated values
-    const btcTemplate = btcItems[0]
-    const aggregatedBtc: PortfolioItem = {
-      token: {
-        ...btcTemplate.token,
-        symbol: 'BTC',
-        name: 'Bitcoin (Aggregated)',
-        specialCalculation: 'BTC_AMOUNT'
-      },
-      amount: totalBtcAmount,
-      currentPrice: btcTemplate.currentPrice,
-      currentValue: totalBtcValue,
-      percentage: 0,
-      performance: btcPerformance.performance,
-      costBasis: totalBtcCostBasis,
-      change24h: btcChange24h,
-      marketCap: btcTemplate.marketCap,
-      fdv: btcTemplate.fdv
-    }
-    aggregatedItems.push(aggregatedBtc)
-  }
+  const aggregatedItems: PortfolioItem[] = []
+  aggregatedCategories.forEach(category => {
+    const groupItems = itemsByCategory.get(category.id) || []
+    if (groupItems.length === 0) return
+
+    const totalValue = groupItems.reduce((sum, item) => sum + item.currentValue, 0)
+    const totalCostBasis = groupItems.reduce((sum, item) => sum + item.costBasis, 0)
+    const totalIncome = groupItems.reduce((sum, item) => sum + (item.income ?? 0), 0)
+    const totalRealized = groupItems.reduce((sum, item) => sum + (item.realizedPnl ?? 0), 0)
+    const performance = calculatePerformance(totalValue, totalCostBasis)
 
-  // Create aggregated Ethereum item
-  if (ethItems.length > 0) {
-    const totalEthValue = ethItems.reduce((sum, item) => sum + item.currentValue, 0)
-    const totalEthCostBasis = ethItems.reduce((sum, item) => sum + item.costBasis, 0)
-    const ethPerformance = calculatePerformance(totalEthValue, totalEthCostBasis)
-    const ethChange24h = ethItems[0].change24h // Use ETH 24h change from first item
-    
-    // Calculate total ETH amount
-    const totalEthAmount = ethItems.reduce((sum, item) => sum + item.amount, 0)
-    
-    // Use the first ETH item as template, but with aggregated values
-    const ethTemplate = ethItems[0]
-    const aggregatedEth: PortfolioItem = {
+    // Total in the reference asset (proxied tokens count in it, not shares)
+    const totalAmount = groupItems.reduce((sum, item) => sum + (item.referenceAmount ?? item.amount), 0)
+
+    // Use the first item as template (and for the 24h change), but with aggregated values
+    const template = groupItems[0]
+    aggregatedItems.push({
       token: {
-        ...ethTemplate.token,
-        symbol: 'ETH',
-        name: 'Ethereum (Aggregated)',
-        specialCalculation: 'ETH_AMOUNT'
+        ...template.token,
+        symbol: category.aggregateSymbol as string,
+        name: `${category.name} (Aggregated)`,
+        priceProxy: undefined,
+        targetWeight: undefined,
+        tolerance: undefined
       },
-      amount: totalEthAmount,
-      currentPrice: ethTemplate.currentPrice,
-      currentValue: totalEthValue,
+      amount: totalAmount,
+      currentPrice: totalAmount > 0 ? totalValue / totalAmount : template.currentPrice,
+      currentValue: totalValue,
       percentage: 0,
-      performance: ethPerformance.performance,
-      costBasis: totalEthCostBasis,
-      change24h: ethChange24h,
-      marketCap: ethTemplate.marketCap,
-      fdv: ethTemplate.fdv
-    }
-    aggregatedItems.push(aggregatedEth)
-  }
+      performance: performance.performance,
+      costBasis: totalCostBasis,
+      income: totalIncome,
+      realizedPnl: totalRealized,
+      change24h: template.change24h,
+      marketCap: template.marketCap,
+      fdv: template.fdv
+    })
+  })
 
   // Add all other items unchanged
   aggregatedItems.push(...otherItems)
@@ -0,0 +1,82 @@
+import { addYears, parseISO } from 'date-fns'
+import { CapitalGainsRow, CostBasisOptions, HoldingTerm, Transaction } from '@/lib/types/portfolio'
+import { replayLots } from '@/lib/utils/fund-calculations'
+
+const CSV_HEADERS = [
+  'Description of property',
+  'Date acquired',
+  'Date sold or disposed of',
+  'Proceeds',
+  'Cost or other basis',
+  'Gain or (loss)',
+  'Term',
+  'Lot ID',
+  'Transaction ID',
+]
+
+/**
+ * Long term when the disposal happens more than one year after acquisition
+ */
+export function getHoldingTerm(acquiredDate: string, disposedDate: string): HoldingTerm {
+  return parseISO(disposedDate) > addYears(parseISO(acquiredDate), 1) ? 'LONG' : 'SHORT'
+}
+
+function formatAmount(amount: number): string {
+  return Number(amount.toFixed(8)).toString()
+}
+
+/**
+ * Capital gains per disposal, matched to lots with the configured lot-matching method.
+ * When `taxYear` is given only disposals in that calendar year are returned.
+ */
+export function buildCapitalGainsReport(
+  transactions: Transaction[],
+  options: CostBasisOptions & { taxYear?: number } = {}
+): CapitalGainsRow[] {
+  const { taxYear, ...costBasisOptions } = options
+  const { disposals } = replayLots(transactions, undefined, costBasisOptions)
+
+  return disposals
+    .filter(disposal => taxYear === undefined || disposal.disposedDate.startsWith(`${taxYear}-`))
+    .map(disposal => ({
+      transactionId: disposal.transactionId,
+      lotId: disposal.lotId,
+      symbol: disposal.symbol,
+      description: `${formatAmount(disposal.amount)} ${disposal.symbol}`,
+      acquiredDate: disposal.acquiredDate,
+      disposedDate: disposal.disposedDate,
+      amount: disposal.amount,
+      proceeds: disposal.proceeds,
+      costBasis: disposal.costBasis,
+      gain: disposal.proceeds - disposal.costBasis,
+      term: getHoldingTerm(disposal.acquiredDate, disposal.disposedDate),
+    }))
+    .sort((a, b) => a.disposedDate.localeCompare(b.disposedDate) || a.acquiredDate.localeCompare(b.acquiredDate))
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Form 8949-style CSV export of a capital gains report
+ */
+export function capitalGainsToCsv(rows: CapitalGainsRow[]): string {
+  const lines = rows.map(row =>
+    [
+      row.description,
+      row.acquiredDate,
+      row.disposedDate,
+      row.proceeds.toFixed(2),
+      row.costBasis.toFixed(2),
+      row.gain.toFixed(2),
+      row.term === 'LONG' ? 'Long-term' : 'Short-term',
+      row.lotId,
+      row.transactionId,
+    ]
+      .map(escapeCsv)
+      .join(',')
+  )
+
+  return [CSV_HEADERS.join(','), ...lines].join('\n') + '\n'
+}
@@ -0,0 +1,28 @@
+import { CategoryDefinition, TokenCategory, TokenMetadata } from '@/lib/types/portfolio'
+import { CASH_CATEGORY, UNCATEGORIZED_COLOR } from '@/lib/constants/portfolio-data'
+
+/**
+ * A token's primary category followed by its tags, without duplicates
+ */
+export function getTokenCategories(token: TokenMetadata): TokenCategory[] {
+  return Array.from(new Set([token.category, ...(token.tags ?? [])]))
+}
+
+/**
+ * Portfolio categories in display order, with the built-in cash category last
+ */
+export function withCashCategory(categories: CategoryDefinition[]): CategoryDefinition[] {
+  return [...categories.filter(category => category.id !== CASH_CATEGORY.id), CASH_CATEGORY]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+}
+
+/**
+ * Look up a category by ID; unknown IDs (e.g. a deleted category) are shown as-is in a neutral color
+ */
+export function createCategoryLookup(categories: CategoryDefinition[]) {
+  const byId = new Map(categories.map(category => [category.id, category]))
+  return (id: TokenCategory): CategoryDefinition =>
+    byId.get(id) ?? { id, name: id, color: UNCATEGORIZED_COLOR, sortOrder: Number.MAX_SAFE_INTEGER }
+}
+
+export type CategoryLookup = ReturnType<typeof createCategoryLookup>
@@ -1,16 +1,22 @@
 import numeral from 'numeral'
+import { BASE_CURRENCY, getCurrencySymbol } from '@/lib/utils/fx'
+
+function withCurrencySymbol(formatted: string, currency: string): string {
+  if (currency === BASE_CURRENCY) return formatted
+  return formatted.replace('$', getCurrencySymbol(currency))
+}
 
 /**
- * Format currency values
+ * Format currency values (USD unless a reporting currency is given)
  */
-export function formatCurrency(value: number | null | undefined): string {
+export function formatCurrency(value: number | null | undefined, currency: string = BASE_CURRENCY): string {
   if (value === null || value === undefined) return '-'
   if (value >= 1_000_000) {
-    return numeral(value).format('$0.0a') // $1.2M
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2M
   } else if (value >= 1_000) {
-    return numeral(value).format('$0,000') // $1,234
+    return withCurrencySymbol(numeral(value).format('$0,000'), currency) // $1,234
   } else {
-    return numeral(value).format('$0.00') // $123.45
+    return withCurrencySymbol(numeral(value).format('$0.00'), currency) // $123.45
   }
 }
 
@@ -37,6 +43,14 @@ export function formatPortfolioPercentage(value: number | null | undefined): str
   return `${value.toFixed(2)}%`
 }
 
+/**
+ * Format drift from a target weight (expects decimal, e.g., 0.032 for 3.2 percentage points)
+ */
+export function formatDrift(value: number): string {
+  const points = value * 100
+  return `${points >= 0 ? '+' : ''}${points.toFixed(1)} pts`
+}
+
 /**
  * Format token amounts
  */
@@ -53,11 +67,11 @@ export function formatTokenAmount(amount: number, symbol: string): string {
 /**
  * Format price values
  */
-export function formatPrice(price: number): string {
+export function formatPrice(price: number, currency: string = BASE_CURRENCY): string {
   if (price >= 1) {
-    return numeral(price).format('$0.00')
+    return withCurrencySymbol(numeral(price).format('$0.00'), currency)
   } else {
-    return numeral(price).format('$0.0000')
+    return withCurrencySymbol(numeral(price).format('$0.0000'), currency)
   }
 }
 
@@ -121,6 +135,7 @@ export function getCategoryColor(category: string): string {
     'Defi': '#F59E0B',
     'Micro': '#6B7280',
     'Privacy': '#6B7280',
+    'Cash': '#65A30D',
   }
   
   return colors[category as keyof typeof colors] || '#6B7280'
@@ -129,35 +144,35 @@ export function getCategoryColor(category: string): string {
 /**
  * Format market cap values
  */
-export function formatMarketCap(value: number | undefined): string {
+export function formatMarketCap(value: number | undefined, currency: string = BASE_CURRENCY): string {
   if (value === undefined || value === null) return '-'
   if (value === 0) return '-'
   
   if (value >= 1_000_000_000) {
-    return numeral(value).format('$0.0a') // $1.2B
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2B
   } else if (value >= 1_000_000) {
-    return numeral(value).format('$0.0a') // $1.2M
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2M
   } else if (value >= 1_000) {
-    return numeral(value).format('$0.0a') // $1.2K
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2K
   } else {
-    return numeral(value).format('$0')
+    return withCurrencySymbol(numeral(value).format('$0'), currency)
   }
 }
 
 /**
  * Format FDV (Fully Diluted Valuation) values
  */
-export function formatFDV(value: number | undefined): string {
+export function formatFDV(value: number | undefined, currency: string = BASE_CURRENCY): string {
   if (value === undefined || value === null) return '-'
   if (value === 0) return '-'
   
   if (value >= 1_000_000_000) {
-    return numeral(value).format('$0.0a') // $1.2B
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2B
   } else if (value >= 1_000_000) {
-    return numeral(value).format('$0.0a') // $1.2M
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2M
   } else if (value >= 1_000) {
-    return numeral(value).format('$0.0a') // $1.2K
+    return withCurrencySymbol(numeral(value).format('$0.0a'), currency) // $1.2K
   } else {
-    return numeral(value).format('$0')
+    return withCurrencySymbol(numeral(value).format('$0'), currency)
   }
 } 
\ No newline at end of file
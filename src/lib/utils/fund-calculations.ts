@@ -1,17 +1,54 @@
-import { Transaction, FundState, TokenMetadata, PriceData } from '@/lib/types/portfolio'
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns'
+import {
+  Transaction,
+  FundState,
+  TokenMetadata,
+  PriceData,
+  Investor,
+  InvestorLedger,
+  InvestorPosition,
+  QuotaValueResolution,
+  PortfolioSettings,
+  NavPoint,
+  FeeAccrualResult,
+  FeeCrystallization,
+  TransactionType,
+  CostBasisOptions,
+  Lot,
+  LotDisposal,
+  LotMatchingMethod
+} from '@/lib/types/portfolio'
+import { getTokenPrice } from '@/lib/utils/portfolio-pricing'
+import { compareTransactions, excludeVoided, isTransactionAtOrBefore, sortTransactions } from '@/lib/utils/transaction-order'
 
 /**
- * Filter transactions up to a specific date (inclusive)
+ * Ledger key for DEPOSIT/WITHDRAW transactions recorded without an investorId
+ */
+export const UNASSIGNED_INVESTOR_ID = 'unassigned'
+
+/**
+ * Transaction types that add tokens without spending cash
+ */
+export const INCOME_TRANSACTION_TYPES: TransactionType[] = ['INCOME', 'REWARD', 'AIRDROP']
+
+export function isIncomeTransaction(tx: Transaction): boolean {
+  return INCOME_TRANSACTION_TYPES.includes(tx.type)
+}
+
+/**
+ * Filter transactions up to a specific date (inclusive) or ISO timestamp,
+ * returned in ledger order (date, timestamp, in-day sequence). Voided entries are dropped.
  */
 export function filterTransactionsByDate(
   transactions: Transaction[],
   upToDate?: string
 ): Transaction[] {
+  const ordered = sortTransactions(excludeVoided(transactions))
   if (!upToDate) {
-    return transactions
+    return ordered
   }
 
-  return transactions.filter(tx => tx.date <= upToDate)
+  return ordered.filter(tx => isTransactionAtOrBefore(tx, upToDate))
 }
 
 /**
@@ -27,6 +64,17 @@ export function processTransactions(
   let totalShares = 0
   let cashBalance = 0
   const holdings = new Map<string, number>()
+  const investors = new Map<string, InvestorLedger>()
+
+  const getInvestorLedger = (investorId?: string): InvestorLedger => {
+    const key = investorId || UNASSIGNED_INVESTOR_ID
+    let ledger = investors.get(key)
+    if (!ledger) {
+      ledger = { shares: 0, contributedCapital: 0, withdrawnCapital: 0 }
+      investors.set(key, ledger)
+    }
+    return ledger
+  }
 
   for (const tx of filteredTransactions) {
     const quotaValue = tx.quotaValueAtTransaction ?? initialQuotaValue
@@ -36,12 +84,18 @@ export function processTransactions(
         const newShares = tx.usdValue / quotaValue
         totalShares += newShares
         cashBalance += tx.usdValue
+        const ledger = getInvestorLedger(tx.investorId)
+        ledger.shares += newShares
+        ledger.contributedCapital += tx.usdValue
         break
       }
       case 'WITHDRAW': {
         const sharesToRedeem = tx.usdValue / quotaValue
         totalShares -= sharesToRedeem
         cashBalance -= tx.usdValue
+        const ledger = getInvestorLedger(tx.investorId)
+        ledger.shares -= sharesToRedeem
+        ledger.withdrawnCapital += tx.usdValue
         break
       }
       case 'BUY': {
@@ -60,6 +114,28 @@ export function processTransactions(
         }
         break
       }
+      case 'FEE': {
+        cashBalance -= tx.usdValue
+        break
+      }
+      case 'INCOME':
+      case 'REWARD':
+      case 'AIRDROP': {
+        if (tx.tokenSymbol) {
+          const currentAmount = holdings.get(tx.tokenSymbol) || 0
+          holdings.set(tx.tokenSymbol, currentAmount + tx.amount)
+        }
+        break
+      }
+      case 'SWAP': {
+        if (tx.fromSymbol && tx.toSymbol) {
+          const fromAmount = holdings.get(tx.fromSymbol) || 0
+          holdings.set(tx.fromSymbol, fromAmount - (tx.fromAmount ?? 0))
+          const toAmount = holdings.get(tx.toSymbol) || 0
+          holdings.set(tx.toSymbol, toAmount + (tx.toAmount ?? tx.amount))
+        }
+        break
+      }
     }
   }
 
@@ -67,7 +143,8 @@ export function processTransactions(
     totalShares,
     quotaValue: initialQuotaValue,
     cashBalance,
-    holdings
+    holdings,
+    investors
   }
 }
 
@@ -80,6 +157,54 @@ export function calculateQuotaValue(
   return portfolioValue / totalShares
 }
 
+// Where a DEPOSIT/WITHDRAW sits in the ledger; `id` skips its stored copy on updates
+export type LedgerPosition = Pick<Transaction, 'date' | 'timestamp' | 'sequence'> & Partial<Pick<Transaction, 'id'>>
+
+/**
+ * Transactions replayed before `position` in ledger order, including earlier entries
+ * on the same day. Entries that tie with it (same day, timestamp and sequence) are left out.
+ */
+export function getTransactionsBefore(transactions: Transaction[], position: LedgerPosition): Transaction[] {
+  return transactions.filter(tx =>
+    tx.id !== position.id && compareTransactions(tx, position) < 0
+  )
+}
+
+/**
+ * Day whose closing prices value a DEPOSIT/WITHDRAW on `date`: the previous day, the
+ * same close the stored portfolioDaily row (and Convex resolveQuotaValue) uses
+ */
+export function getQuotaValuationDate(date: string): string {
+  return format(subDays(parseISO(date), 1), 'yyyy-MM-dd')
+}
+
+/**
+ * Derive the quota value for a DEPOSIT/WITHDRAW at `position` from the previous day's
+ * closing `prices` (see getQuotaValuationDate). Transactions before it in ledger order
+ * are applied, so the new shares are priced at the NAV the fund had when the money
+ * came in (or left).
+ */
+export function resolveQuotaValueFromPrices(
+  transactions: Transaction[],
+  position: LedgerPosition,
+  prices: Record<string, PriceData>,
+  tokens: TokenMetadata[],
+  initialQuotaValue: number = 1
+): QuotaValueResolution {
+  const priorTransactions = getTransactionsBefore(transactions, position)
+  const fundState = processTransactions(priorTransactions, undefined, initialQuotaValue)
+
+  if (fundState.totalShares <= 0) {
+    return { quotaValue: initialQuotaValue, source: 'initial' }
+  }
+
+  const portfolioValue = calculatePortfolioValue(fundState, prices, tokens, getQuotaValuationDate(position.date))
+  return {
+    quotaValue: calculateQuotaValue(portfolioValue, fundState.totalShares, initialQuotaValue),
+    source: 'historical'
+  }
+}
+
 export function calculateQuotaPerformance(
   currentQuotaValue: number,
   initialQuotaValue: number = 1
@@ -95,46 +220,223 @@ export function calculateSharesForWithdraw(amount: number, quotaValue: number):
   return amount / quotaValue
 }
 
+/**
+ * Value each investor's share ledger at the given quota value.
+ * Ledgers without a registered investor keep their ID as display name.
+ */
+export function calculateInvestorPositions(
+  fundState: FundState,
+  quotaValue: number,
+  investors: Investor[] = []
+): InvestorPosition[] {
+  const positions: InvestorPosition[] = []
+
+  fundState.investors.forEach((ledger, investorId) => {
+    const investor = investors.find(i => i.id === investorId)
+    const currentValue = ledger.shares * quotaValue
+
+    positions.push({
+      investorId,
+      name: investor?.name || investorId,
+      ...ledger,
+      currentValue,
+      ownership: fundState.totalShares > 0 ? (ledger.shares / fundState.totalShares) * 100 : 0,
+      pnl: currentValue + ledger.withdrawnCapital - ledger.contributedCapital
+    })
+  })
+
+  return positions.sort((a, b) => b.currentValue - a.currentValue)
+}
+
 export function getHoldingsFromFundState(fundState: FundState): Map<string, number> {
   return fundState.holdings
 }
 
-export function calculateCostBasis(
+export const DEFAULT_LOT_MATCHING_METHOD: LotMatchingMethod = 'AVERAGE'
+
+// Remaining amounts below this are treated as fully consumed
+const LOT_DUST = 1e-12
+
+/**
+ * Order open lots for a disposal. SPECIFIC takes the referenced lots first (in the
+ * order given) and falls back to FIFO for any remainder.
+ */
+function orderLotsForDisposal(lots: Lot[], method: LotMatchingMethod, lotIds?: string[]): Lot[] {
+  switch (method) {
+    case 'LIFO':
+      return [...lots].reverse()
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.unitCost - a.unitCost)
+    case 'SPECIFIC': {
+      const requested = (lotIds || [])
+        .map(id => lots.find(lot => lot.id === id))
+        .filter((lot): lot is Lot => lot !== undefined)
+      return [...requested, ...lots.filter(lot => !requested.includes(lot))]
+    }
+    case 'FIFO':
+    default:
+      return lots
+  }
+}
+
+/**
+ * Replay the ledger through per-token acquisition lots.
+ * Income received (INCOME/REWARD/AIRDROP) opens a lot at zero cost or at its fair value
+ * at receipt, depending on `incomeCostBasis`. SELL and SWAP consume lots according to
+ * `lotMatchingMethod`; AVERAGE consumes every open lot pro rata, which reproduces
+ * average-cost accounting. Each consumed lot portion is recorded as a disposal with its
+ * share of the proceeds. A SWAP disposes of the outgoing token at the swap-time fair
+ * value (`usdValue`) and opens a lot for the incoming token at that same value.
+ */
+export function replayLots(
   transactions: Transaction[],
-  upToDate?: string
-): Map<string, number> {
+  upToDate?: string,
+  options: CostBasisOptions = {}
+) {
+  const incomeCostBasis = options.incomeCostBasis ?? 'FAIR_VALUE'
+  const method = options.lotMatchingMethod ?? DEFAULT_LOT_MATCHING_METHOD
   const filteredTransactions = filterTransactionsByDate(transactions, upToDate)
 
-  const costBasis = new Map<string, number>()
-  const holdings = new Map<string, number>()
+  const lots = new Map<string, Lot[]>()
+  const disposals: LotDisposal[] = []
+
+  const acquire = (tx: Transaction, symbol: string, amount: number, cost: number) => {
+    if (amount <= 0) return
+    const openLots = lots.get(symbol) || []
+    openLots.push({
+      id: tx.id,
+      symbol,
+      acquiredDate: tx.date,
+      originalAmount: amount,
+      amount,
+      unitCost: cost / amount,
+      costBasis: cost
+    })
+    lots.set(symbol, openLots)
+  }
+
+  const dispose = (tx: Transaction, symbol: string, amount: number, proceeds: number) => {
+    const openLots = lots.get(symbol) || []
+    const available = openLots.reduce((sum, lot) => sum + lot.amount, 0)
+    if (available <= 0 || amount <= 0) {
+      return
+    }
+
+    const amountDisposed = Math.min(amount, available)
+    const takeFromLot = new Map<Lot, number>()
+
+    if (method === 'AVERAGE') {
+      const fraction = amountDisposed / available
+      openLots.forEach(lot => takeFromLot.set(lot, lot.amount * fraction))
+    } else {
+      let remaining = amountDisposed
+      for (const lot of orderLotsForDisposal(openLots, method, tx.lotIds)) {
+        if (remaining <= 0) break
+        const taken = Math.min(lot.amount, remaining)
+        takeFromLot.set(lot, taken)
+        remaining -= taken
+      }
+    }
+
+    takeFromLot.forEach((taken, lot) => {
+      if (taken <= 0) return
+      const lotCost = lot.amount > 0 ? lot.costBasis * (taken / lot.amount) : 0
+      lot.amount -= taken
+      lot.costBasis -= lotCost
+      disposals.push({
+        transactionId: tx.id,
+        lotId: lot.id,
+        symbol,
+        acquiredDate: lot.acquiredDate,
+        disposedDate: tx.date,
+        amount: taken,
+        costBasis: lotCost,
+        proceeds: proceeds * (taken / amountDisposed)
+      })
+    })
+
+    lots.set(symbol, openLots.filter(lot => lot.amount > LOT_DUST))
+  }
 
   for (const tx of filteredTransactions) {
-    if (tx.type === 'BUY' && tx.tokenSymbol) {
-      const currentCost = costBasis.get(tx.tokenSymbol) || 0
-      costBasis.set(tx.tokenSymbol, currentCost + tx.usdValue)
-      const currentAmount = holdings.get(tx.tokenSymbol) || 0
-      holdings.set(tx.tokenSymbol, currentAmount + tx.amount)
+    const isIncome = isIncomeTransaction(tx)
+    if ((tx.type === 'BUY' || isIncome) && tx.tokenSymbol) {
+      const acquisitionCost = isIncome && incomeCostBasis === 'ZERO' ? 0 : tx.usdValue
+      acquire(tx, tx.tokenSymbol, tx.amount, acquisitionCost)
     } else if (tx.type === 'SELL' && tx.tokenSymbol) {
-      const currentAmount = holdings.get(tx.tokenSymbol) || 0
-      if (currentAmount <= 0) {
-        continue
-      }
-      const currentCost = costBasis.get(tx.tokenSymbol) || 0
-      const averageCost = currentCost / currentAmount
-      const amountSold = Math.min(tx.amount, currentAmount)
-      const costReduction = averageCost * amountSold
-      costBasis.set(tx.tokenSymbol, Math.max(0, currentCost - costReduction))
-      holdings.set(tx.tokenSymbol, currentAmount - amountSold)
+      dispose(tx, tx.tokenSymbol, tx.amount, tx.usdValue)
+    } else if (tx.type === 'SWAP' && tx.fromSymbol && tx.toSymbol) {
+      dispose(tx, tx.fromSymbol, tx.fromAmount ?? 0, tx.usdValue)
+      acquire(tx, tx.toSymbol, tx.toAmount ?? tx.amount, tx.usdValue)
     }
   }
 
+  return { lots, disposals }
+}
+
+/**
+ * Cost basis per token under the configured lot-matching method
+ */
+export function calculateCostBasis(
+  transactions: Transaction[],
+  upToDate?: string,
+  options: CostBasisOptions = {}
+): Map<string, number> {
+  const costBasis = new Map<string, number>()
+
+  replayLots(transactions, upToDate, options).lots.forEach((openLots, symbol) => {
+    costBasis.set(symbol, openLots.reduce((sum, lot) => sum + lot.costBasis, 0))
+  })
+
   return costBasis
 }
 
+/**
+ * Realized P&L per token: disposal proceeds (SELL usdValue, SWAP fair value) minus
+ * the cost basis of the lots consumed. Tokens fully exited keep their entry.
+ */
+export function calculateRealizedGains(
+  transactions: Transaction[],
+  upToDate?: string,
+  options: CostBasisOptions = {}
+): Map<string, number> {
+  const realizedGains = new Map<string, number>()
+
+  for (const disposal of replayLots(transactions, upToDate, options).disposals) {
+    const gain = disposal.proceeds - disposal.costBasis
+    realizedGains.set(disposal.symbol, (realizedGains.get(disposal.symbol) || 0) + gain)
+  }
+
+  return realizedGains
+}
+
+/**
+ * USD fair value of income received per token, reported apart from trading P&L.
+ * Tokens that were later sold keep their income.
+ */
+export function calculateIncome(
+  transactions: Transaction[],
+  upToDate?: string
+): Map<string, number> {
+  const income = new Map<string, number>()
+
+  for (const tx of filterTransactionsByDate(transactions, upToDate)) {
+    if (isIncomeTransaction(tx) && tx.tokenSymbol) {
+      income.set(tx.tokenSymbol, (income.get(tx.tokenSymbol) || 0) + tx.usdValue)
+    }
+  }
+
+  return income
+}
+
+/**
+ * Cash plus holdings valued at `currentPrices`; `date` picks price proxy ratios (today when omitted)
+ */
 export function calculatePortfolioValue(
   fundState: FundState,
   currentPrices: Record<string, PriceData>,
-  tokens: TokenMetadata[]
+  tokens: TokenMetadata[],
+  date?: string
 ): number {
   let totalValue = fundState.cashBalance
 
@@ -142,16 +444,7 @@ export function calculatePortfolioValue(
     const token = tokens.find(t => t.symbol === symbol)
     if (!token) return
 
-    if (token.specialCalculation === 'ETH_AMOUNT') {
-      const ethPrice = currentPrices['ethereum']?.price || 0
-      totalValue += amount * ethPrice
-    } else if (token.specialCalculation === 'BTC_AMOUNT') {
-      const btcPrice = currentPrices['bitcoin']?.price || 0
-      totalValue += amount * btcPrice
-    } else {
-      const price = currentPrices[token.id]?.price || 0
-      totalValue += amount * price
-    }
+    totalValue += amount * getTokenPrice(token, currentPrices, date)
   })
 
   return totalValue
@@ -167,18 +460,149 @@ export function getTokenAmount(
 export function calculateTokenValue(
   token: TokenMetadata,
   holdings: Map<string, number>,
-  currentPrices: Record<string, PriceData>
+  currentPrices: Record<string, PriceData>,
+  date?: string
 ): number {
-  const amount = getTokenAmount(token, holdings)
-
-  if (token.specialCalculation === 'ETH_AMOUNT') {
-    const ethPrice = currentPrices['ethereum']?.price || 0
-    return amount * ethPrice
-  } else if (token.specialCalculation === 'BTC_AMOUNT') {
-    const btcPrice = currentPrices['bitcoin']?.price || 0
-    return amount * btcPrice
+  return getTokenAmount(token, holdings) * getTokenPrice(token, currentPrices, date)
+}
+
+const DAYS_PER_YEAR = 365
+
+function getCrystallizationPeriod(date: string, schedule: FeeCrystallization): string {
+  const [year, month] = date.split('-')
+  switch (schedule) {
+    case 'MONTHLY':
+      return `${year}-${month}`
+    case 'QUARTERLY':
+      return `${year}-Q${Math.ceil(Number(month) / 3)}`
+    case 'ANNUAL':
+    default:
+      return year
+  }
+}
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function getFeeTransactionId(kind: 'management' | 'performance', date: string): string {
+  return `fee-${kind}-${date}`
+}
+
+/**
+ * Replay daily NAV through management and performance fee accrual.
+ * Management fee accrues daily on net NAV; performance fee accrues on the quota value
+ * above the high-water mark. Both crystallize on the last NAV point of each period.
+ * FEE transactions already in the ledger are added back to NAV, so the result does not
+ * change once the generated fees are posted.
+ */
+export function calculateFeeAccrual(
+  navPoints: NavPoint[],
+  transactions: Transaction[],
+  settings: PortfolioSettings
+): FeeAccrualResult {
+  const managementFeeRate = settings.managementFeeRate ?? 0
+  const performanceFeeRate = settings.performanceFeeRate ?? 0
+  const schedule = settings.feeCrystallization ?? 'ANNUAL'
+  const initialQuotaValue = settings.initialQuotaValue
+
+  const points = [...navPoints].sort((a, b) => a.date.localeCompare(b.date))
+  const postedFees = excludeVoided(transactions)
+    .filter(tx => tx.type === 'FEE')
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  const feeTransactions: Transaction[] = []
+  let highWaterMark = initialQuotaValue
+  let crystallizedFees = 0
+  let accruedManagementFee = 0
+  let accruedPerformanceFee = 0
+  let totalManagementFees = 0
+  let totalPerformanceFees = 0
+  let grossQuotaValue = initialQuotaValue
+  let netQuotaValue = initialQuotaValue
+  let postedFeeTotal = 0
+  let postedFeeIndex = 0
+  let previousDate: string | null = null
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i]
+
+    while (postedFeeIndex < postedFees.length && postedFees[postedFeeIndex].date <= point.date) {
+      postedFeeTotal += postedFees[postedFeeIndex].usdValue
+      postedFeeIndex++
+    }
+
+    if (point.totalShares <= 0) {
+      continue
+    }
+
+    const elapsedDays = previousDate
+      ? Math.max(1, differenceInCalendarDays(parseISO(point.date), parseISO(previousDate)))
+      : 1
+    previousDate = point.date
+
+    const grossValue = point.portfolioValue + postedFeeTotal
+    const valueAfterCrystallized = grossValue - crystallizedFees
+    const netValueBeforeToday = valueAfterCrystallized - accruedManagementFee - accruedPerformanceFee
+
+    accruedManagementFee += Math.max(0, netValueBeforeToday) * managementFeeRate * elapsedDays / DAYS_PER_YEAR
+
+    const quotaAfterManagement = (valueAfterCrystallized - accruedManagementFee) / point.totalShares
+    accruedPerformanceFee = quotaAfterManagement > highWaterMark
+      ? (quotaAfterManagement - highWaterMark) * point.totalShares * performanceFeeRate
+      : 0
+
+    grossQuotaValue = grossValue / point.totalShares
+    netQuotaValue = (valueAfterCrystallized - accruedManagementFee - accruedPerformanceFee) / point.totalShares
+
+    const nextPoint = points[i + 1]
+    const isPeriodEnd =
+      nextPoint !== undefined &&
+      getCrystallizationPeriod(nextPoint.date, schedule) !== getCrystallizationPeriod(point.date, schedule)
+
+    if (!isPeriodEnd) {
+      continue
+    }
+
+    const managementFee = roundToCents(accruedManagementFee)
+    if (managementFee > 0) {
+      feeTransactions.push({
+        id: getFeeTransactionId('management', point.date),
+        date: point.date,
+        type: 'FEE',
+        amount: managementFee,
+        usdValue: managementFee
+      })
+      totalManagementFees += managementFee
+      crystallizedFees += managementFee
+    }
+
+    const performanceFee = roundToCents(accruedPerformanceFee)
+    if (performanceFee > 0) {
+      feeTransactions.push({
+        id: getFeeTransactionId('performance', point.date),
+        date: point.date,
+        type: 'FEE',
+        amount: performanceFee,
+        usdValue: performanceFee
+      })
+      totalPerformanceFees += performanceFee
+      crystallizedFees += performanceFee
+      highWaterMark = Math.max(highWaterMark, netQuotaValue)
+    }
+
+    accruedManagementFee = 0
+    accruedPerformanceFee = 0
   }
 
-  const price = currentPrices[token.id]?.price || 0
-  return amount * price
+  return {
+    feeTransactions,
+    accruedManagementFee,
+    accruedPerformanceFee,
+    totalManagementFees,
+    totalPerformanceFees,
+    highWaterMark,
+    grossQuotaValue,
+    netQuotaValue
+  }
 }
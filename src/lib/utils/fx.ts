@@ -0,0 +1,128 @@
+import { FxRate, PortfolioSettings, PriceData, Transaction } from '@/lib/types/portfolio'
+import { sortTransactions } from '@/lib/utils/transaction-order'
+
+/**
+ * Currency the ledger is stored in (usdValue, priceAtTransaction, portfolioDaily)
+ */
+export const BASE_CURRENCY = 'USD'
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  BRL: 'R$',
+  GBP: '£',
+  JPY: '¥',
+}
+
+export function getCurrencySymbol(currency: string = BASE_CURRENCY): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `
+}
+
+export interface FxConverter {
+  currency: string
+  // Units of `currency` per 1 USD on `date` (1 for USD)
+  rateOn: (date: string) => number
+  convert: (usdValue: number, date: string) => number
+}
+
+/**
+ * Build a converter from stored daily rates. Dates without a rate (weekends,
+ * holidays, today before publication) use the latest earlier rate; dates before
+ * the first stored rate use the first one.
+ */
+export function createFxConverter(currency: string, rates: FxRate[]): FxConverter {
+  if (currency === BASE_CURRENCY || rates.length === 0) {
+    return {
+      currency: rates.length === 0 ? BASE_CURRENCY : currency,
+      rateOn: () => 1,
+      convert: (usdValue) => usdValue,
+    }
+  }
+
+  const sorted = [...rates].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+
+  const rateOn = (date: string) => {
+    let low = 0
+    let high = sorted.length - 1
+    let match = 0
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (sorted[mid].date <= date) {
+        match = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return sorted[match].rate
+  }
+
+  return {
+    currency,
+    rateOn,
+    convert: (usdValue, date) => usdValue * rateOn(date),
+  }
+}
+
+/**
+ * Restate the ledger in the reporting currency, each transaction at its own date's
+ * rate. Cost basis, realized P&L and share issuance computed from the result are
+ * then historical-rate figures in that currency. Field names keep their USD suffix.
+ * The cash balance replayed from the result mixes rates: take cash (and so NAV) from
+ * the USD ledger and convert it with `rateOn(date)` instead.
+ */
+export function convertTransactions(
+  transactions: Transaction[],
+  converter: FxConverter,
+  initialQuotaValue: number
+): Transaction[] {
+  if (converter.currency === BASE_CURRENCY) return transactions
+
+  return transactions.map((tx) => {
+    const rate = converter.rateOn(tx.date)
+    const isCapitalFlow = tx.type === 'DEPOSIT' || tx.type === 'WITHDRAW'
+    return {
+      ...tx,
+      usdValue: tx.usdValue * rate,
+      priceAtTransaction: tx.priceAtTransaction !== undefined ? tx.priceAtTransaction * rate : undefined,
+      // Pin the quota so shares minted/redeemed are identical to the USD ledger
+      quotaValueAtTransaction: isCapitalFlow
+        ? (tx.quotaValueAtTransaction ?? initialQuotaValue) * rate
+        : tx.quotaValueAtTransaction,
+    }
+  })
+}
+
+/**
+ * Initial quota and baseline restated at the rate of the fund's first transaction
+ */
+export function convertSettings(
+  settings: PortfolioSettings,
+  transactions: Transaction[],
+  converter: FxConverter
+): PortfolioSettings {
+  if (converter.currency === BASE_CURRENCY) return settings
+
+  const inceptionDate = sortTransactions(transactions)[0]?.date
+  const rate = inceptionDate ? converter.rateOn(inceptionDate) : converter.rateOn('9999-12-31')
+  return {
+    ...settings,
+    initialQuotaValue: settings.initialQuotaValue * rate,
+    baselineTotalValue: settings.baselineTotalValue * rate,
+  }
+}
+
+export function convertPrices(prices: Record<string, PriceData>, rate: number): Record<string, PriceData> {
+  if (rate === 1) return prices
+
+  const converted: Record<string, PriceData> = {}
+  Object.entries(prices).forEach(([tokenId, data]) => {
+    converted[tokenId] = {
+      ...data,
+      price: data.price * rate,
+      marketCap: data.marketCap !== undefined ? data.marketCap * rate : undefined,
+      fdv: data.fdv !== undefined ? data.fdv * rate : undefined,
+    }
+  })
+  return converted
+}
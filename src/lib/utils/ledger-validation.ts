@@ -0,0 +1,213 @@
+import type {
+  LedgerIssue,
+  LedgerIssueCode,
+  TokenMetadata,
+  Transaction,
+} from '@/lib/types/portfolio'
+import { excludeVoided, sortTransactions } from '@/lib/utils/transaction-order'
+
+// Shared by Convex functions: only import dependency-free modules here.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const AMOUNT_TOLERANCE = 1e-9
+const CASH_TOLERANCE = 0.01
+const VALUE_MISMATCH_TOLERANCE = 0.01 // 1% of usdValue
+
+const ERROR_CODES: LedgerIssueCode[] = [
+  'malformed-date',
+  'duplicate-id',
+  'missing-token',
+  'unknown-token',
+  'oversell',
+  'over-redeem',
+]
+
+export interface LedgerValidationOptions {
+  initialQuotaValue?: number
+}
+
+export function isValidLedgerDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) return false
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date
+}
+
+function getTokenSymbols(tx: Transaction): Array<string | undefined> {
+  switch (tx.type) {
+    case 'BUY':
+    case 'SELL':
+    case 'INCOME':
+    case 'REWARD':
+    case 'AIRDROP':
+      return [tx.tokenSymbol]
+    case 'SWAP':
+      return [tx.fromSymbol, tx.toSymbol]
+    default:
+      return []
+  }
+}
+
+/**
+ * Replay the ledger in ledger order and report every integrity violation with the
+ * offending transaction id. Errors make the ledger unusable (oversells, unknown tokens,
+ * bad dates, ...); warnings flag entries worth reviewing (negative cash, a usdValue that
+ * does not match amount * priceAtTransaction).
+ */
+export function validateLedger(
+  transactions: Transaction[],
+  tokens: TokenMetadata[],
+  options: LedgerValidationOptions = {}
+): LedgerIssue[] {
+  const initialQuotaValue = options.initialQuotaValue ?? 1
+  const knownSymbols = new Set(tokens.map(token => token.symbol))
+  const issues: LedgerIssue[] = []
+
+  const report = (tx: Transaction, code: LedgerIssueCode, message: string) => {
+    issues.push({
+      transactionId: tx.id,
+      code,
+      severity: ERROR_CODES.includes(code) ? 'error' : 'warning',
+      message,
+    })
+  }
+
+  const seenIds = new Set<string>()
+  for (const tx of transactions) {
+    if (seenIds.has(tx.id)) {
+      report(tx, 'duplicate-id', `Transaction id ${tx.id} is used more than once`)
+    }
+    seenIds.add(tx.id)
+
+    // Voided entries keep their ID but are otherwise out of the ledger
+    if (tx.voidedAt) continue
+
+    if (!isValidLedgerDate(tx.date)) {
+      report(tx, 'malformed-date', `Date "${tx.date}" is not a valid YYYY-MM-DD date`)
+    }
+
+    if (tx.timestamp !== undefined) {
+      if (Number.isNaN(Date.parse(tx.timestamp)) || !isValidLedgerDate(tx.timestamp.slice(0, 10))) {
+        report(tx, 'malformed-date', `Timestamp "${tx.timestamp}" is not a valid ISO timestamp`)
+      } else if (tx.timestamp.slice(0, 10) !== tx.date) {
+        report(tx, 'malformed-date', `Timestamp "${tx.timestamp}" falls outside date ${tx.date}`)
+      }
+    }
+
+    for (const symbol of getTokenSymbols(tx)) {
+      if (!symbol) {
+        report(tx, 'missing-token', `${tx.type} transaction has no token symbol`)
+      } else if (!knownSymbols.has(symbol)) {
+        report(tx, 'unknown-token', `Token ${symbol} is not registered in portfolioTokens`)
+      }
+    }
+
+    if (tx.priceAtTransaction !== undefined && tx.tokenSymbol && tx.type !== 'SWAP') {
+      const expected = tx.amount * tx.priceAtTransaction
+      const tolerance = Math.max(CASH_TOLERANCE, Math.abs(tx.usdValue) * VALUE_MISMATCH_TOLERANCE)
+      if (Math.abs(expected - tx.usdValue) > tolerance) {
+        report(
+          tx,
+          'value-mismatch',
+          `amount * priceAtTransaction = ${expected.toFixed(2)} but usdValue = ${tx.usdValue.toFixed(2)}`
+        )
+      }
+    }
+  }
+
+  const ordered = sortTransactions(excludeVoided(transactions))
+
+  const holdings = new Map<string, number>()
+  const investorShares = new Map<string, number>()
+  let cashBalance = 0
+  let totalShares = 0
+  let isCashNegative = false
+
+  const removeTokens = (tx: Transaction, symbol: string | undefined, amount: number) => {
+    if (!symbol) return
+    const held = holdings.get(symbol) || 0
+    if (amount > held + AMOUNT_TOLERANCE) {
+      report(tx, 'oversell', `Disposes of ${amount} ${symbol} but only ${held} held`)
+    }
+    holdings.set(symbol, held - amount)
+  }
+
+  const addTokens = (symbol: string | undefined, amount: number) => {
+    if (!symbol) return
+    holdings.set(symbol, (holdings.get(symbol) || 0) + amount)
+  }
+
+  for (const tx of ordered) {
+    const quotaValue = tx.quotaValueAtTransaction ?? initialQuotaValue
+
+    switch (tx.type) {
+      case 'DEPOSIT': {
+        const shares = tx.usdValue / quotaValue
+        totalShares += shares
+        cashBalance += tx.usdValue
+        const key = tx.investorId || ''
+        investorShares.set(key, (investorShares.get(key) || 0) + shares)
+        break
+      }
+      case 'WITHDRAW': {
+        const shares = tx.usdValue / quotaValue
+        const key = tx.investorId || ''
+        const owned = investorShares.get(key) || 0
+        if (shares > totalShares + AMOUNT_TOLERANCE) {
+          report(tx, 'over-redeem', `Redeems ${shares.toFixed(4)} shares but only ${totalShares.toFixed(4)} outstanding`)
+        } else if (tx.investorId && shares > owned + AMOUNT_TOLERANCE) {
+          report(tx, 'over-redeem', `Redeems ${shares.toFixed(4)} shares but ${tx.investorId} owns ${owned.toFixed(4)}`)
+        }
+        totalShares -= shares
+        cashBalance -= tx.usdValue
+        investorShares.set(key, owned - shares)
+        break
+      }
+      case 'BUY':
+        cashBalance -= tx.usdValue
+        addTokens(tx.tokenSymbol, tx.amount)
+        break
+      case 'SELL':
+        removeTokens(tx, tx.tokenSymbol, tx.amount)
+        cashBalance += tx.usdValue
+        break
+      case 'FEE':
+        cashBalance -= tx.usdValue
+        break
+      case 'INCOME':
+      case 'REWARD':
+      case 'AIRDROP':
+        addTokens(tx.tokenSymbol, tx.amount)
+        break
+      case 'SWAP':
+        removeTokens(tx, tx.fromSymbol, tx.fromAmount ?? 0)
+        addTokens(tx.toSymbol, tx.toAmount ?? tx.amount)
+        break
+    }
+
+    // Reported on the entry that takes cash below zero, once per negative stretch
+    if (cashBalance < -CASH_TOLERANCE && !isCashNegative) {
+      report(tx, 'negative-cash', `Cash balance drops to ${cashBalance.toFixed(2)}`)
+    }
+    isCashNegative = cashBalance < -CASH_TOLERANCE
+  }
+
+  return issues
+}
+
+export function hasLedgerErrors(issues: LedgerIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error')
+}
+
+// Messages carry running balances that move with unrelated edits, so they are not part of the key
+function getIssueKey(issue: LedgerIssue): string {
+  return `${issue.transactionId}:${issue.code}`
+}
+
+/**
+ * Issues present in `after` but not in `before`, i.e. introduced by a ledger change.
+ * An existing violation on the same transaction is not new, even if its amounts changed.
+ */
+export function diffLedgerIssues(before: LedgerIssue[], after: LedgerIssue[]): LedgerIssue[] {
+  const existing = new Set(before.map(getIssueKey))
+  return after.filter(issue => !existing.has(getIssueKey(issue)))
+}
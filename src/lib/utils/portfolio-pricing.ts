@@ -1,20 +1,51 @@
-import { TokenMetadata } from "@/lib/types/portfolio";
+import { PriceData, TokenMetadata } from "@/lib/types/portfolio";
 
 /**
- * Get unique token IDs that need price fetching (handles special calculations).
+ * Price ID a token is quoted by: its price proxy's reference asset, or its own ID.
  */
-export function getUniqueTokenIdsForPricing(tokens: TokenMetadata[]): string[] {
-  const tokenIds = new Set<string>();
-
-  for (const token of tokens) {
-    if (token.specialCalculation === "ETH_AMOUNT") {
-      tokenIds.add("ethereum");
-    } else if (token.specialCalculation === "BTC_AMOUNT") {
-      tokenIds.add("bitcoin");
-    } else if (!token.specialCalculation || token.specialCalculation === "REGULAR") {
-      tokenIds.add(token.id);
-    }
+export function getPricingId(token: TokenMetadata): string {
+  return token.priceProxy?.priceId ?? token.id;
+}
+
+/**
+ * Reference units per token on `date` (defaults to today). Ratios are linearly
+ * interpolated between entries and held flat before the first and after the last.
+ */
+export function getPriceRatio(token: TokenMetadata, date?: string): number {
+  const ratios = [...(token.priceProxy?.ratios ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+  if (ratios.length === 0) return 1;
+
+  const day = date ?? new Date().toISOString().slice(0, 10);
+  if (day <= ratios[0].date) return ratios[0].ratio;
+
+  for (let i = 1; i < ratios.length; i++) {
+    const next = ratios[i];
+    if (day > next.date) continue;
+
+    const prev = ratios[i - 1];
+    const span = Date.parse(next.date) - Date.parse(prev.date);
+    if (span <= 0) return next.ratio;
+    const progress = (Date.parse(day) - Date.parse(prev.date)) / span;
+    return prev.ratio + (next.ratio - prev.ratio) * progress;
   }
 
-  return Array.from(tokenIds);
+  return ratios[ratios.length - 1].ratio;
+}
+
+/**
+ * USD price of one token on `date`, going through its price proxy when it has one.
+ */
+export function getTokenPrice(
+  token: TokenMetadata,
+  prices: Record<string, PriceData>,
+  date?: string
+): number {
+  return (prices[getPricingId(token)]?.price || 0) * getPriceRatio(token, date);
+}
+
+/**
+ * Get unique price IDs to fetch for a set of tokens (proxied tokens need their reference asset).
+ */
+export function getUniqueTokenIdsForPricing(tokens: TokenMetadata[]): string[] {
+  return Array.from(new Set(tokens.map(getPricingId)));
 }
@@ -0,0 +1,164 @@
+import {
+  AllocationDrift,
+  CategoryDefinition,
+  PortfolioItem,
+  PriceData,
+  RebalancePlan,
+  RebalanceTrade,
+  TokenMetadata
+} from '@/lib/types/portfolio'
+import { isCashItem } from '@/lib/utils/calculations'
+import { getTokenPrice } from '@/lib/utils/portfolio-pricing'
+
+export const DEFAULT_TARGET_TOLERANCE = 0.05
+
+// Trades smaller than this are not worth the fees
+export const MIN_REBALANCE_TRADE_VALUE = 10
+
+function toDrift(
+  scope: AllocationDrift['scope'],
+  id: string,
+  actualValue: number,
+  totalValue: number,
+  targetWeight: number,
+  tolerance: number = DEFAULT_TARGET_TOLERANCE
+): AllocationDrift {
+  const actualWeight = totalValue > 0 ? actualValue / totalValue : 0
+  const drift = actualWeight - targetWeight
+  return { scope, id, actualWeight, targetWeight, drift, tolerance, outOfBand: Math.abs(drift) > tolerance }
+}
+
+/**
+ * Drift of every category and token that has a target weight, categories first.
+ * Category weights use each token's primary category; cash counts towards the total.
+ */
+export function calculateAllocationDrift(
+  items: PortfolioItem[],
+  tokens: TokenMetadata[],
+  categories: CategoryDefinition[]
+): AllocationDrift[] {
+  const totalValue = items.reduce((sum, item) => sum + item.currentValue, 0)
+  const valueBySymbol = new Map(items.filter(item => !isCashItem(item)).map(item => [item.token.symbol, item.currentValue]))
+
+  const categoryDrifts = categories
+    .filter(category => category.targetWeight !== undefined)
+    .map(category => {
+      const value = items
+        .filter(item => !isCashItem(item) && item.token.category === category.id)
+        .reduce((sum, item) => sum + item.currentValue, 0)
+      return toDrift('category', category.id, value, totalValue, category.targetWeight!, category.tolerance)
+    })
+
+  const tokenDrifts = tokens
+    .filter(token => token.targetWeight !== undefined)
+    .map(token =>
+      toDrift('token', token.symbol, valueBySymbol.get(token.symbol) || 0, totalValue, token.targetWeight!, token.tolerance)
+    )
+
+  return [...categoryDrifts, ...tokenDrifts]
+}
+
+/**
+ * Target value per token symbol. Tokens with their own target get it outright; the rest of
+ * a category's target is split over its other held tokens in proportion to their current value.
+ * Tokens outside any target are left out (they are not traded).
+ */
+export function calculateTargetValues(
+  items: PortfolioItem[],
+  tokens: TokenMetadata[],
+  categories: CategoryDefinition[]
+): Map<string, number> {
+  const totalValue = items.reduce((sum, item) => sum + item.currentValue, 0)
+  const valueBySymbol = new Map(items.filter(item => !isCashItem(item)).map(item => [item.token.symbol, item.currentValue]))
+  const targets = new Map<string, number>()
+
+  tokens.forEach(token => {
+    if (token.targetWeight !== undefined) {
+      targets.set(token.symbol, token.targetWeight * totalValue)
+    }
+  })
+
+  categories.forEach(category => {
+    if (category.targetWeight === undefined) return
+
+    const members = tokens.filter(token => token.category === category.id)
+    const pinnedValue = members.reduce((sum, token) => sum + (targets.get(token.symbol) || 0), 0)
+    const floating = members.filter(token => token.targetWeight === undefined && (valueBySymbol.get(token.symbol) || 0) > 0)
+    const floatingValue = floating.reduce((sum, token) => sum + (valueBySymbol.get(token.symbol) || 0), 0)
+    const budget = Math.max(0, category.targetWeight * totalValue - pinnedValue)
+
+    floating.forEach(token => {
+      targets.set(token.symbol, budget * ((valueBySymbol.get(token.symbol) || 0) / floatingValue))
+    })
+  })
+
+  return targets
+}
+
+/**
+ * BUY/SELL trades that bring out-of-band categories and tokens back to target.
+ * Sells are executed in full; buys are funded from cash plus sell proceeds and
+ * scaled down together when that is not enough. `prices` must be in the same
+ * currency as the items.
+ */
+export function planRebalance(
+  items: PortfolioItem[],
+  tokens: TokenMetadata[],
+  categories: CategoryDefinition[],
+  prices: Record<string, PriceData>,
+  date?: string
+): RebalancePlan {
+  const drifts = calculateAllocationDrift(items, tokens, categories)
+  const targets = calculateTargetValues(items, tokens, categories)
+  const cashBefore = items.filter(isCashItem).reduce((sum, item) => sum + item.currentValue, 0)
+  const valueBySymbol = new Map(items.filter(item => !isCashItem(item)).map(item => [item.token.symbol, item.currentValue]))
+
+  const breached = new Set(drifts.filter(drift => drift.outOfBand).map(drift => `${drift.scope}:${drift.id}`))
+  const needsTrade = (token: TokenMetadata) =>
+    token.targetWeight !== undefined ? breached.has(`token:${token.symbol}`) : breached.has(`category:${token.category}`)
+
+  const sells: RebalanceTrade[] = []
+  const buys: RebalanceTrade[] = []
+
+  tokens.forEach(token => {
+    const target = targets.get(token.symbol)
+    if (target === undefined || !needsTrade(token)) return
+
+    const price = getTokenPrice(token, prices, date)
+    const delta = target - (valueBySymbol.get(token.symbol) || 0)
+    if (price <= 0 || Math.abs(delta) < MIN_REBALANCE_TRADE_VALUE) return
+
+    const trade: RebalanceTrade = {
+      symbol: token.symbol,
+      type: delta > 0 ? 'BUY' : 'SELL',
+      amount: Math.abs(delta) / price,
+      price,
+      value: Math.abs(delta)
+    }
+    if (trade.type === 'BUY') {
+      buys.push(trade)
+    } else {
+      sells.push(trade)
+    }
+  })
+
+  const available = Math.max(0, cashBefore) + sells.reduce((sum, trade) => sum + trade.value, 0)
+  const buyValue = buys.reduce((sum, trade) => sum + trade.value, 0)
+  const scale = buyValue > available ? available / buyValue : 1
+  const fundedBuys = buys
+    .map(trade => ({ ...trade, amount: trade.amount * scale, value: trade.value * scale }))
+    .filter(trade => trade.value >= MIN_REBALANCE_TRADE_VALUE)
+  const fundedValue = fundedBuys.reduce((sum, trade) => sum + trade.value, 0)
+  const sellValue = sells.reduce((sum, trade) => sum + trade.value, 0)
+
+  return {
+    drifts,
+    trades: [
+      ...sells.sort((a, b) => b.value - a.value),
+      ...fundedBuys.sort((a, b) => b.value - a.value)
+    ],
+    cashBefore,
+    cashAfter: cashBefore + sellValue - fundedValue,
+    unfundedValue: buyValue - fundedValue
+  }
+}
@@ -0,0 +1,123 @@
+import { endOfMonth, format, parseISO, subDays, subMonths, subYears } from 'date-fns'
+import { MonthlyReturnsRow, PeriodReturn, QuotaPoint, ReturnPeriod } from '@/lib/types/portfolio'
+
+export const RETURN_PERIODS: ReturnPeriod[] = ['MTD', 'QTD', 'YTD', '1M', '3M', '6M', '1Y', 'ITD']
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Day whose closing quota opens `period` when it ends on `endDate` (null for ITD).
+ * Calendar periods open at the close of the previous month, quarter or year.
+ */
+export function getPeriodStartDate(period: ReturnPeriod, endDate: string): string | null {
+  const end = parseISO(endDate)
+  switch (period) {
+    case 'MTD':
+      return toDateString(subDays(parseISO(`${endDate.slice(0, 7)}-01`), 1))
+    case 'QTD': {
+      const quarterMonth = Math.floor(end.getMonth() / 3) * 3 + 1
+      return toDateString(subDays(parseISO(`${end.getFullYear()}-${String(quarterMonth).padStart(2, '0')}-01`), 1))
+    }
+    case 'YTD':
+      return `${end.getFullYear() - 1}-12-31`
+    case '1M':
+      return toDateString(subMonths(end, 1))
+    case '3M':
+      return toDateString(subMonths(end, 3))
+    case '6M':
+      return toDateString(subMonths(end, 6))
+    case '1Y':
+      return toDateString(subYears(end, 1))
+    case 'ITD':
+      return null
+  }
+}
+
+// Closing quota on `date`: the latest observation on or before it, null before the first one
+function createQuotaLookup(series: QuotaPoint[]) {
+  const sorted = [...series].sort((a, b) => a.date.localeCompare(b.date))
+  return (date: string): number | null => {
+    let low = 0
+    let high = sorted.length - 1
+    let match = -1
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (sorted[mid].date <= date) {
+        match = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return match >= 0 ? sorted[match].quotaValue : null
+  }
+}
+
+/**
+ * Quota return of every period in RETURN_PERIODS up to `endDate` (the last observation by
+ * default). Periods that start before the fund's first observation run from `initialQuotaValue`.
+ */
+export function calculateTrailingReturns(
+  series: QuotaPoint[],
+  initialQuotaValue: number,
+  endDate?: string
+): PeriodReturn[] {
+  const observed = series.filter(point => !endDate || point.date <= endDate)
+  if (observed.length === 0 || initialQuotaValue <= 0) return []
+
+  const quotaOn = createQuotaLookup(observed)
+  const firstDate = observed.reduce((min, point) => (point.date < min ? point.date : min), observed[0].date)
+  const lastDate = observed.reduce((max, point) => (point.date > max ? point.date : max), observed[0].date)
+  const closing = quotaOn(lastDate)!
+
+  return RETURN_PERIODS.map(period => {
+    const startDate = getPeriodStartDate(period, lastDate)
+    const opening = startDate ? quotaOn(startDate) : null
+    return {
+      period,
+      startDate: startDate ?? firstDate,
+      endDate: lastDate,
+      return: closing / (opening ?? initialQuotaValue) - 1,
+      sinceInception: opening === null
+    }
+  })
+}
+
+/**
+ * Year-by-month quota returns, each month from the previous month's closing quota (the initial
+ * quota for the fund's first month). The current month and year run to the last observation.
+ */
+export function calculateMonthlyReturns(series: QuotaPoint[], initialQuotaValue: number): MonthlyReturnsRow[] {
+  if (series.length === 0 || initialQuotaValue <= 0) return []
+
+  const quotaOn = createQuotaLookup(series)
+  const firstDate = series.reduce((min, point) => (point.date < min ? point.date : min), series[0].date)
+  const lastDate = series.reduce((max, point) => (point.date > max ? point.date : max), series[0].date)
+  const firstYear = Number(firstDate.slice(0, 4))
+  const lastYear = Number(lastDate.slice(0, 4))
+  const firstMonth = firstDate.slice(0, 7)
+  const lastMonth = lastDate.slice(0, 7)
+
+  const closeOf = (date: string) => quotaOn(date < lastDate ? date : lastDate)
+  const returnBetween = (openDate: string, closeDate: string) => {
+    const closing = closeOf(closeDate)
+    return closing === null ? null : closing / (quotaOn(openDate) ?? initialQuotaValue) - 1
+  }
+
+  const rows: MonthlyReturnsRow[] = []
+  for (let year = lastYear; year >= firstYear; year--) {
+    const months = MONTH_LABELS.map((_, index) => {
+      const month = `${year}-${String(index + 1).padStart(2, '0')}`
+      if (month < firstMonth || month > lastMonth) return null
+      const monthStart = parseISO(`${month}-01`)
+      return returnBetween(toDateString(subDays(monthStart, 1)), toDateString(endOfMonth(monthStart)))
+    })
+    rows.push({ year, months, total: returnBetween(`${year - 1}-12-31`, `${year}-12-31`) })
+  }
+
+  return rows
+}
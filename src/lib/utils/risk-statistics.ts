@@ -0,0 +1,159 @@
+import type { DrawdownPeriod, NavPoint, QuotaPoint, RiskStatistics } from '@/lib/types/portfolio'
+
+// Shared by Convex functions: only import dependency-free modules here.
+
+// Crypto trades every day, so daily NAV has 365 observations a year
+export const TRADING_DAYS_PER_YEAR = 365
+export const DEFAULT_RISK_FREE_RATE = 0
+export const DEFAULT_VAR_CONFIDENCE = 0.95
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY)
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function sampleStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+/**
+ * Quota series of NAV points in date order. Points without shares outstanding are skipped.
+ */
+export function toQuotaSeries(points: NavPoint[]): QuotaPoint[] {
+  return points
+    .filter(point => point.totalShares > 0 && point.portfolioValue > 0)
+    .map(point => ({ date: point.date, quotaValue: point.portfolioValue / point.totalShares }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Observations of the last `lookbackDays` calendar days up to the latest point (all when omitted).
+ */
+export function applyLookback(series: QuotaPoint[], lookbackDays?: number): QuotaPoint[] {
+  if (!lookbackDays || series.length === 0) return series
+  const endDate = series[series.length - 1].date
+  return series.filter(point => daysBetween(point.date, endDate) <= lookbackDays)
+}
+
+/**
+ * Return between consecutive observations (gaps in the history become one longer return).
+ */
+export function calculatePeriodReturns(series: QuotaPoint[]): number[] {
+  return series.slice(1).map((point, index) => point.quotaValue / series[index].quotaValue - 1)
+}
+
+/**
+ * Distance of each observation from the running peak, as a decimal (0 at a new high, -0.2 at 20% below).
+ */
+export function calculateUnderwaterSeries(series: QuotaPoint[]): { date: string; drawdown: number }[] {
+  let peak = 0
+  return series.map(point => {
+    peak = Math.max(peak, point.quotaValue)
+    return { date: point.date, drawdown: peak > 0 ? point.quotaValue / peak - 1 : 0 }
+  })
+}
+
+/**
+ * Every peak-to-recovery episode of the series, deepest first. The last one may be unrecovered.
+ */
+export function findDrawdownPeriods(series: QuotaPoint[]): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = []
+  if (series.length === 0) return periods
+
+  const endDate = series[series.length - 1].date
+  let peak = series[0]
+  let trough: QuotaPoint | null = null
+
+  const close = (recoveryDate: string | null) => {
+    if (!trough) return
+    periods.push({
+      peakDate: peak.date,
+      troughDate: trough.date,
+      recoveryDate,
+      depth: 1 - trough.quotaValue / peak.quotaValue,
+      durationDays: daysBetween(peak.date, recoveryDate ?? endDate),
+      recoveryDays: recoveryDate ? daysBetween(trough.date, recoveryDate) : null
+    })
+    trough = null
+  }
+
+  series.slice(1).forEach(point => {
+    if (point.quotaValue >= peak.quotaValue) {
+      close(point.date)
+      peak = point
+    } else if (!trough || point.quotaValue < trough.quotaValue) {
+      trough = point
+    }
+  })
+  close(null)
+
+  return periods.sort((a, b) => b.depth - a.depth)
+}
+
+/**
+ * Historical value at risk and expected shortfall of one-period returns, both as positive losses.
+ */
+export function calculateValueAtRisk(
+  returns: number[],
+  confidence: number = DEFAULT_VAR_CONFIDENCE
+): { valueAtRisk: number; conditionalValueAtRisk: number } {
+  if (returns.length === 0) return { valueAtRisk: 0, conditionalValueAtRisk: 0 }
+
+  const sorted = [...returns].sort((a, b) => a - b)
+  const tailSize = Math.max(1, Math.floor(sorted.length * (1 - confidence)))
+  const tail = sorted.slice(0, tailSize)
+  return {
+    valueAtRisk: Math.max(0, -tail[tail.length - 1]),
+    conditionalValueAtRisk: Math.max(0, -mean(tail))
+  }
+}
+
+/**
+ * Volatility, Sharpe, Sortino, drawdowns and VaR/CVaR of a daily quota series.
+ * Returns null with fewer than two observations. `riskFreeRate` is a yearly decimal.
+ */
+export function calculateRiskStatistics(
+  series: QuotaPoint[],
+  options: { riskFreeRate?: number; confidence?: number } = {}
+): RiskStatistics | null {
+  if (series.length < 2) return null
+
+  const { riskFreeRate = DEFAULT_RISK_FREE_RATE, confidence = DEFAULT_VAR_CONFIDENCE } = options
+  const first = series[0]
+  const last = series[series.length - 1]
+  const returns = calculatePeriodReturns(series)
+  const dailyRiskFree = Math.pow(1 + riskFreeRate, 1 / TRADING_DAYS_PER_YEAR) - 1
+  const excessReturns = returns.map(value => value - dailyRiskFree)
+
+  const dailyVolatility = sampleStandardDeviation(returns)
+  const downsideDeviation = Math.sqrt(mean(excessReturns.map(value => Math.min(0, value) ** 2)))
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR)
+  const totalReturn = last.quotaValue / first.quotaValue - 1
+  const days = daysBetween(first.date, last.date)
+  const drawdowns = findDrawdownPeriods(series)
+  const underwater = calculateUnderwaterSeries(series)
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    observations: returns.length,
+    totalReturn,
+    annualizedReturn: days > 0 ? Math.pow(1 + totalReturn, TRADING_DAYS_PER_YEAR / days) - 1 : 0,
+    volatility: dailyVolatility * annualize,
+    sharpeRatio: dailyVolatility > 0 ? (mean(excessReturns) / dailyVolatility) * annualize : null,
+    sortinoRatio: downsideDeviation > 0 ? (mean(excessReturns) / downsideDeviation) * annualize : null,
+    maxDrawdown: drawdowns[0] ?? null,
+    longestDrawdownDays: Math.max(0, ...drawdowns.map(period => period.durationDays)),
+    currentDrawdown: -underwater[underwater.length - 1].drawdown,
+    ...calculateValueAtRisk(returns, confidence),
+    confidence,
+    riskFreeRate
+  }
+}
@@ -0,0 +1,63 @@
+import type { RecordDiff } from '@/lib/types/portfolio'
+
+// Shared by Convex functions: keep this module free of runtime imports.
+
+// Missing and undefined are the same; arrays (lotIds) compare by content
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === undefined || b === undefined) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Names of `fields` whose values differ between two records
+ */
+export function diffFields<T extends object>(current: T, next: T, fields: readonly (keyof T & string)[]): string[] {
+  return fields.filter(field => !isSameValue(current[field], next[field]))
+}
+
+/**
+ * Names of `fields` that `record` sets; a merge leaves the others as stored
+ */
+export function getProvidedFields<T extends object>(record: T, fields: readonly (keyof T & string)[]): (keyof T & string)[] {
+  return fields.filter(field => record[field] !== undefined)
+}
+
+/**
+ * Compare stored records against incoming ones by key. Only `fields` are compared,
+ * so bookkeeping fields (createdAt, voidedAt, ...) never show up as changes. With
+ * `ignoreOmitted`, fields an incoming record leaves out count as unchanged.
+ */
+export function diffRecords<T extends object>(
+  current: T[],
+  next: T[],
+  keyOf: (record: T) => string,
+  fields: readonly (keyof T & string)[],
+  options: { ignoreOmitted?: boolean } = {}
+): RecordDiff {
+  const currentByKey = new Map(current.map(record => [keyOf(record), record]))
+  const nextKeys = new Set<string>()
+  const diff: RecordDiff = { added: [], changed: [], removed: [] }
+
+  for (const record of next) {
+    const key = keyOf(record)
+    nextKeys.add(key)
+
+    const existing = currentByKey.get(key)
+    if (!existing) {
+      diff.added.push(key)
+      continue
+    }
+
+    const changedFields = diffFields(existing, record, options.ignoreOmitted ? getProvidedFields(record, fields) : fields)
+    if (changedFields.length > 0) {
+      diff.changed.push({ key, fields: changedFields })
+    }
+  }
+
+  currentByKey.forEach((_, key) => {
+    if (!nextKeys.has(key)) diff.removed.push(key)
+  })
+
+  return diff
+}
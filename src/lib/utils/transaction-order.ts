@@ -0,0 +1,54 @@
+import type { Transaction } from '@/lib/types/portfolio'
+
+// Shared by Convex functions: keep this module free of runtime imports.
+
+type OrderedTransaction = Pick<Transaction, 'date' | 'timestamp' | 'sequence'>
+
+function getTimestampMs(tx: OrderedTransaction): number {
+  if (!tx.timestamp) return Number.NEGATIVE_INFINITY
+  const ms = Date.parse(tx.timestamp)
+  return Number.isNaN(ms) ? Number.NEGATIVE_INFINITY : ms
+}
+
+/**
+ * Ledger order: calendar date, then intraday timestamp (untimed entries open the day),
+ * then the explicit in-day sequence number. Equal keys keep their input order.
+ */
+export function compareTransactions(a: OrderedTransaction, b: OrderedTransaction): number {
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1
+
+  const timeA = getTimestampMs(a)
+  const timeB = getTimestampMs(b)
+  if (timeA !== timeB) return timeA < timeB ? -1 : 1
+
+  return (a.sequence ?? 0) - (b.sequence ?? 0)
+}
+
+/**
+ * Stable copy of the transactions in the order they must be replayed
+ */
+export function sortTransactions<T extends OrderedTransaction>(transactions: T[]): T[] {
+  return [...transactions].sort(compareTransactions)
+}
+
+/**
+ * Entries that count towards balances. Voided transactions stay in the stored
+ * ledger (and its audit trail) but are skipped by every calculation.
+ */
+export function excludeVoided<T extends Pick<Transaction, 'voidedAt'>>(transactions: T[]): T[] {
+  return transactions.filter(tx => !tx.voidedAt)
+}
+
+/**
+ * True when `tx` happened at or before `upTo`, which is either a day (YYYY-MM-DD,
+ * inclusive of the whole day) or a full ISO timestamp
+ */
+export function isTransactionAtOrBefore(tx: OrderedTransaction, upTo: string): boolean {
+  if (upTo.length <= 10) return tx.date <= upTo
+
+  const day = upTo.slice(0, 10)
+  if (tx.date !== day) return tx.date < day
+
+  // Same day: untimed entries open the day, so they precede any point in it
+  return getTimestampMs(tx) <= Date.parse(upTo)
+}
@@ -0,0 +1,161 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { CashFlow, MoneyWeightedReturn, Transaction } from '@/lib/types/portfolio'
+import { filterTransactionsByDate } from '@/lib/utils/fund-calculations'
+
+const DAYS_PER_YEAR = 365
+const MAX_NEWTON_ITERATIONS = 50
+const MAX_BISECTION_ITERATIONS = 200
+const RATE_TOLERANCE = 1e-10
+
+// Rates scanned for a sign change when Newton's method does not converge (-1 itself is excluded)
+const BRACKET_RATES = [
+  -0.999999, -0.9999, -0.999, -0.99, -0.95, -0.9, -0.75, -0.5, -0.25, -0.1, 0, 0.1, 0.25, 0.5,
+  1, 2, 5, 10, 100, 1_000, 10_000
+]
+
+interface TimedFlow {
+  years: number
+  amount: number
+}
+
+function npv(flows: TimedFlow[], rate: number): number {
+  return flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0)
+}
+
+function npvDerivative(flows: TimedFlow[], rate: number): number {
+  return flows.reduce((sum, flow) => sum - (flow.years * flow.amount) / Math.pow(1 + rate, flow.years + 1), 0)
+}
+
+function newton(flows: TimedFlow[], guess: number): number | null {
+  let rate = guess
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const value = npv(flows, rate)
+    const slope = npvDerivative(flows, rate)
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) return null
+
+    const next = rate - value / slope
+    if (!Number.isFinite(next) || next <= -1) return null
+    if (Math.abs(next - rate) < RATE_TOLERANCE) return next
+    rate = next
+  }
+  return null
+}
+
+function bisect(flows: TimedFlow[], low: number, high: number): number {
+  let lowValue = npv(flows, low)
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS && high - low > RATE_TOLERANCE; i++) {
+    const mid = (low + high) / 2
+    const midValue = npv(flows, mid)
+    if (midValue === 0) return mid
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid
+      lowValue = midValue
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+/**
+ * Annualized internal rate of return of irregularly dated cash flows (as a decimal).
+ * Newton's method from `guess`, falling back to bisection over every sign change of the
+ * NPV curve; when that finds several roots (flows that change sign more than once) the one
+ * closest to `guess` wins. Returns null when the flows are all in one direction, span no time,
+ * or no rate above -100% solves them.
+ */
+export function calculateXirr(cashFlows: CashFlow[], guess: number = 0.1): number | null {
+  const nonZero = cashFlows.filter(flow => flow.amount !== 0 && Number.isFinite(flow.amount))
+  if (!nonZero.some(flow => flow.amount > 0) || !nonZero.some(flow => flow.amount < 0)) return null
+
+  const firstDate = nonZero.reduce((min, flow) => (flow.date < min ? flow.date : min), nonZero[0].date)
+  const flows: TimedFlow[] = nonZero.map(flow => ({
+    years: differenceInCalendarDays(parseISO(flow.date), parseISO(firstDate)) / DAYS_PER_YEAR,
+    amount: flow.amount
+  }))
+  if (flows.every(flow => flow.years === 0)) return null
+
+  const scale = flows.reduce((sum, flow) => sum + Math.abs(flow.amount), 0)
+  const isRoot = (rate: number) => Math.abs(npv(flows, rate)) <= scale * 1e-7
+
+  const newtonRate = newton(flows, guess)
+  if (newtonRate !== null && isRoot(newtonRate)) return newtonRate
+
+  const roots: number[] = []
+  for (let i = 1; i < BRACKET_RATES.length; i++) {
+    const low = BRACKET_RATES[i - 1]
+    const high = BRACKET_RATES[i]
+    const lowValue = npv(flows, low)
+    const highValue = npv(flows, high)
+    if (!Number.isFinite(lowValue) || !Number.isFinite(highValue)) continue
+    if (lowValue === 0) {
+      roots.push(low)
+    } else if (Math.sign(lowValue) !== Math.sign(highValue)) {
+      const root = bisect(flows, low, high)
+      if (isRoot(root)) roots.push(root)
+    }
+  }
+  if (roots.length === 0) return null
+
+  return roots.reduce((best, root) => (Math.abs(root - guess) < Math.abs(best - guess) ? root : best))
+}
+
+interface MoneyWeightedReturnOptions {
+  endDate: string
+  endValue: number
+  startDate?: string   // Omit for since inception; otherwise the NAV at the close of this day is carried in
+  startValue?: number
+}
+
+// DEPOSIT/WITHDRAW flows dated after `startDate` (all of them when omitted) up to `endDate`
+function getCapitalFlows(transactions: Transaction[], endDate: string, startDate?: string): CashFlow[] {
+  return filterTransactionsByDate(transactions, endDate)
+    .filter(tx => (tx.type === 'DEPOSIT' || tx.type === 'WITHDRAW') && (!startDate || tx.date > startDate))
+    .map(tx => ({ date: tx.date, amount: tx.type === 'DEPOSIT' ? -tx.usdValue : tx.usdValue }))
+}
+
+/**
+ * Investor cash flows of a period: the opening NAV as a deposit, each DEPOSIT/WITHDRAW after
+ * the period start, and the closing NAV as a final withdrawal. `usdValue` is taken as is, so
+ * pass transactions already converted to the reporting currency of the NAVs.
+ */
+export function buildCashFlows(transactions: Transaction[], options: MoneyWeightedReturnOptions): CashFlow[] {
+  const { startDate, startValue = 0, endDate, endValue } = options
+  return [
+    ...(startDate && startValue !== 0 ? [{ date: startDate, amount: -startValue }] : []),
+    ...getCapitalFlows(transactions, endDate, startDate),
+    ...(endValue !== 0 ? [{ date: endDate, amount: endValue }] : [])
+  ]
+}
+
+/**
+ * Money-weighted return of the fund's actual capital over a period (since inception when
+ * `startDate` is omitted). Unlike the quota return, it weights each stretch of performance
+ * by how much money was invested at the time.
+ */
+export function calculateMoneyWeightedReturn(
+  transactions: Transaction[],
+  options: MoneyWeightedReturnOptions
+): MoneyWeightedReturn {
+  const { endDate, endValue } = options
+  const startValue = options.startDate ? options.startValue ?? 0 : 0
+  const flows = buildCashFlows(transactions, options)
+  const netContributions = -getCapitalFlows(transactions, endDate, options.startDate)
+    .reduce((sum, flow) => sum + flow.amount, 0)
+
+  const startDate = options.startDate
+    ?? flows.reduce((min, flow) => (flow.date < min ? flow.date : min), endDate)
+  const years = differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) / DAYS_PER_YEAR
+  const annualizedReturn = calculateXirr(flows)
+
+  return {
+    startDate,
+    endDate,
+    startValue,
+    endValue,
+    netContributions,
+    gain: endValue - startValue - netContributions,
+    annualizedReturn,
+    periodReturn: annualizedReturn === null ? null : Math.pow(1 + annualizedReturn, years) - 1
+  }
+}